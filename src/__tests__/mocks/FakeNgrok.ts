@@ -0,0 +1,144 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+export type FakeNgrokScenario = 'success' | 'domain-in-use' | 'auth-failed' | 'crash' | 'hang';
+
+export interface FakeNgrokInvocation {
+  pid: number;
+  args: string[];
+  scenario: FakeNgrokScenario;
+}
+
+const FAKE_NGROK_SCRIPT = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fake-ngrok.cjs');
+
+/**
+ * Puts an offline `ngrok` executable first on PATH, so the CLI backend can be
+ * exercised without the real binary, an auth token or network access.
+ */
+export class FakeNgrok {
+  private readonly binDir: string;
+  private readonly scriptPath: string;
+  private readonly originalPath = process.env.PATH;
+
+  private constructor() {
+    this.binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fake-ngrok-'));
+    this.scriptPath = path.join(this.binDir, 'script.json');
+
+    const executable = path.join(this.binDir, 'ngrok');
+    fs.writeFileSync(
+      executable,
+      `#!/bin/sh\nexec "${process.execPath}" "${FAKE_NGROK_SCRIPT}" "$@"\n`,
+      {
+        mode: 0o755,
+      }
+    );
+
+    process.env.PATH = `${this.binDir}${path.delimiter}${this.originalPath}`;
+    process.env.FAKE_NGROK_SCRIPT = this.scriptPath;
+  }
+
+  static install(...scenarios: FakeNgrokScenario[]): FakeNgrok {
+    const fake = new FakeNgrok();
+    fake.script(...scenarios);
+    return fake;
+  }
+
+  /**
+   * Sets what the following invocations do, in order. The last scenario
+   * repeats for every further invocation.
+   */
+  script(...scenarios: FakeNgrokScenario[]): void {
+    fs.writeFileSync(this.scriptPath, JSON.stringify({ scenarios, invocations: [] }));
+  }
+
+  /**
+   * Sets the entries the fake inspector returns from /api/requests/http, in
+   * ngrok's format (base64 `raw` messages, nanosecond durations).
+   */
+  captureRequests(requests: unknown[]): void {
+    const script = JSON.parse(fs.readFileSync(this.scriptPath, 'utf8'));
+    fs.writeFileSync(this.scriptPath, JSON.stringify({ ...script, requests }));
+  }
+
+  /**
+   * Sets the metrics the fake inspector reports for the tunnel in /api/tunnels,
+   * in ngrok's format (per-second rates, nanosecond percentiles).
+   */
+  reportMetrics(metrics: unknown): void {
+    const script = JSON.parse(fs.readFileSync(this.scriptPath, 'utf8'));
+    fs.writeFileSync(this.scriptPath, JSON.stringify({ ...script, metrics }));
+  }
+
+  get invocations(): FakeNgrokInvocation[] {
+    return JSON.parse(fs.readFileSync(this.scriptPath, 'utf8')).invocations;
+  }
+
+  uninstall(): void {
+    process.env.PATH = this.originalPath;
+    delete process.env.FAKE_NGROK_SCRIPT;
+    fs.rmSync(this.binDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Builds an entry as the ngrok inspector reports it at /api/requests/http.
+ */
+export function capturedRequest({
+  id,
+  method = 'POST',
+  uri = '/',
+  status = 200,
+  body = '',
+  responseBody = '',
+  headers = {},
+  durationMs = 12,
+  start = '2024-01-01T00:00:00Z',
+}: {
+  id: string;
+  method?: string;
+  uri?: string;
+  status?: number;
+  body?: string;
+  responseBody?: string;
+  headers?: Record<string, string[]>;
+  durationMs?: number;
+  start?: string;
+}) {
+  const rawMessage = (
+    startLine: string,
+    messageHeaders: Record<string, string[]>,
+    messageBody: string
+  ) => {
+    const headerLines = Object.entries(messageHeaders).flatMap(([name, values]) =>
+      values.map((value) => `${name}: ${value}`)
+    );
+    return Buffer.from([startLine, ...headerLines, '', messageBody].join('\r\n')).toString(
+      'base64'
+    );
+  };
+
+  return {
+    uri: `/api/requests/http/${id}`,
+    id,
+    tunnel_name: 'command_line',
+    remote_addr: '192.0.2.1',
+    start,
+    duration: durationMs * 1e6,
+    request: {
+      method,
+      proto: 'HTTP/1.1',
+      headers,
+      uri,
+      raw: rawMessage(`${method} ${uri} HTTP/1.1`, headers, body),
+    },
+    response: {
+      status: `${status}`,
+      status_code: status,
+      proto: 'HTTP/1.1',
+      headers: { 'Content-Type': ['text/plain'] },
+      raw: rawMessage(`HTTP/1.1 ${status}`, { 'Content-Type': ['text/plain'] }, responseBody),
+    },
+  };
+}
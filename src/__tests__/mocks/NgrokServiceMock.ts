@@ -1,6 +1,8 @@
 import { Service, type IAgentRuntime } from '@elizaos/core';
 import type { ITunnelService, TunnelStatus } from '@elizaos/core';
 import { vi } from 'vitest';
+import { parseUpstream } from '../../services/upstream';
+import type { NgrokTunnelOptions, NgrokTunnelProtocol } from '../../types';
 
 export class MockNgrokService extends Service implements ITunnelService {
   static serviceType = 'tunnel';
@@ -8,25 +10,40 @@ export class MockNgrokService extends Service implements ITunnelService {
 
   private mockUrl: string | null = null;
   private mockPort: number | null = null;
+  private mockUpstream: string | null = null;
+  private mockProtocol: NgrokTunnelProtocol | null = null;
   private mockStartedAt: Date | null = null;
   private mockActive = false;
 
   // Mock functions to track calls
-  startTunnel = vi.fn().mockImplementation(async (port?: number) => {
-    if (typeof port !== 'number') {
-      return;
-    }
-    this.mockActive = true;
-    this.mockPort = port;
-    this.mockStartedAt = new Date();
-    this.mockUrl = `https://mock-tunnel-${port}.ngrok.io`;
-    return this.mockUrl;
-  });
+  startTunnel = vi
+    .fn()
+    .mockImplementation(
+      async (portOrUpstream?: number | string, options: NgrokTunnelOptions = {}) => {
+        if (portOrUpstream === undefined) {
+          return;
+        }
+        const upstream = parseUpstream(portOrUpstream);
+        const port = upstream.port ?? 0;
+        this.mockActive = true;
+        this.mockPort = upstream.port;
+        this.mockUpstream = upstream.address;
+        this.mockProtocol = options.protocol || 'http';
+        this.mockStartedAt = new Date();
+        this.mockUrl =
+          this.mockProtocol === 'tcp'
+            ? `tcp://0.tcp.ngrok.io:${port}`
+            : `https://mock-tunnel-${port}.ngrok.io`;
+        return this.mockUrl;
+      }
+    );
 
   stopTunnel = vi.fn().mockImplementation(async () => {
     this.mockActive = false;
     this.mockUrl = null;
     this.mockPort = null;
+    this.mockUpstream = null;
+    this.mockProtocol = null;
     this.mockStartedAt = null;
   });
 
@@ -35,13 +52,22 @@ export class MockNgrokService extends Service implements ITunnelService {
   isActive = vi.fn().mockImplementation(() => this.mockActive);
 
   getStatus = vi.fn().mockImplementation((): TunnelStatus => ({
+    state: this.mockActive ? 'online' : 'idle',
     active: this.mockActive,
     url: this.mockUrl,
     port: this.mockPort,
+    upstream: this.mockUpstream,
+    protocol: this.mockProtocol,
     startedAt: this.mockStartedAt,
     provider: 'ngrok',
   }));
 
+  refreshTunnelMetrics = vi.fn().mockImplementation(async () => this.getStatus());
+
+  getRecentRequests = vi.fn().mockResolvedValue([]);
+
+  replayRequest = vi.fn();
+
   // Base Service methods
   async start(): Promise<void> {}
   async stop(): Promise<void> {
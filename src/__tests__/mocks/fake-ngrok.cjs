@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+/**
+ * Offline stand-in for the ngrok CLI. Accepts the arguments CliTunnelBackend
+ * passes, serves a fake inspector API on --web-addr and logs in ngrok's JSON
+ * format. What each invocation does is scripted through the JSON file named by
+ * FAKE_NGROK_SCRIPT (see FakeNgrok.ts):
+ *
+ *   success        serve the tunnel until terminated
+ *   domain-in-use  fail with ERR_NGROK_334
+ *   auth-failed    fail with ERR_NGROK_105
+ *   crash          serve the tunnel, then exit with code 1 once its URL was read
+ *   hang           stay up without ever publishing a tunnel
+ *
+ * The inspector serves the entries in the script's `requests` field at
+ * /api/requests/http and /api/requests/http/:id, and its `metrics` field as the
+ * tunnel's metrics in /api/tunnels.
+ */
+const fs = require('fs');
+const http = require('http');
+
+const [protocol, upstream, ...rest] = process.argv.slice(2);
+const flags = {};
+for (let i = 0; i < rest.length; i += 2) {
+  flags[rest[i].replace(/^--/, '')] = rest[i + 1];
+}
+
+function nextScenario() {
+  const scriptPath = process.env.FAKE_NGROK_SCRIPT;
+  if (!scriptPath) return 'success';
+
+  const script = JSON.parse(fs.readFileSync(scriptPath, 'utf8'));
+  const scenarios = script.scenarios.length > 0 ? script.scenarios : ['success'];
+  const scenario = scenarios[Math.min(script.invocations.length, scenarios.length - 1)];
+  script.invocations.push({ pid: process.pid, args: process.argv.slice(2), scenario });
+  fs.writeFileSync(scriptPath, JSON.stringify(script));
+  return scenario;
+}
+
+function log(entry) {
+  process.stdout.write(
+    `${JSON.stringify({ lvl: 'info', t: new Date().toISOString(), ...entry })}\n`
+  );
+}
+
+function publicUrl() {
+  const label = upstream.replace(/[^a-z0-9]+/gi, '-');
+  const host = flags.domain || `${flags.subdomain || `fake-${label}-${process.pid}`}.ngrok.app`;
+  if (protocol === 'tcp') return `tcp://0.tcp.ngrok.io:${10000 + (process.pid % 50000)}`;
+  if (protocol === 'tls') return `tls://${host}`;
+  return `https://${host}`;
+}
+
+// Normalized the way ngrok reports it: a bare port is on localhost, HTTP upstreams get a scheme
+function upstreamAddr() {
+  const addr = /^\d+$/.test(upstream) ? `localhost:${upstream}` : upstream;
+  if (protocol !== 'http' || /^(https?|unix):/.test(addr)) return addr;
+  return `http://${addr}`;
+}
+
+const scenario = nextScenario();
+
+if (scenario === 'domain-in-use') {
+  process.stderr.write(
+    `ERROR:  failed to start tunnel: The endpoint '${publicUrl()}' is already online.\nERROR:  ERR_NGROK_334\n`
+  );
+  process.exit(1);
+}
+
+if (scenario === 'auth-failed') {
+  process.stderr.write(
+    'ERROR:  authentication failed: The authtoken you specified is not valid.\nERROR:  ERR_NGROK_105\n'
+  );
+  process.exit(1);
+}
+
+const tunnel = {
+  name: 'command_line',
+  public_url: publicUrl(),
+  proto: protocol === 'http' ? 'https' : protocol,
+  config: { addr: upstreamAddr() },
+};
+
+const server = http.createServer((req, res) => {
+  if (req.url === '/api/tunnels') {
+    const script = process.env.FAKE_NGROK_SCRIPT
+      ? JSON.parse(fs.readFileSync(process.env.FAKE_NGROK_SCRIPT, 'utf8'))
+      : {};
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        tunnels: scenario === 'hang' ? [] : [{ ...tunnel, metrics: script.metrics || {} }],
+      })
+    );
+
+    if (scenario === 'crash') {
+      setTimeout(() => process.exit(1), Number(process.env.FAKE_NGROK_CRASH_AFTER || 100));
+    }
+    return;
+  }
+
+  if (req.url.startsWith('/api/requests/http')) {
+    const script = process.env.FAKE_NGROK_SCRIPT
+      ? JSON.parse(fs.readFileSync(process.env.FAKE_NGROK_SCRIPT, 'utf8'))
+      : {};
+    const requests = script.requests || [];
+    const id = req.url.match(/^\/api\/requests\/http\/([^/?]+)/)?.[1];
+    const body = id
+      ? requests.find((request) => request.id === decodeURIComponent(id))
+      : { uri: '/api/requests/http', requests };
+
+    res.writeHead(body ? 200 : 404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body || { error_code: 100, status_code: 404, msg: 'Not Found' }));
+    return;
+  }
+
+  res.writeHead(404);
+  res.end();
+});
+
+const [host, webPort] = (flags['web-addr'] || '127.0.0.1:4040').split(':');
+server.listen(Number(webPort), host, () => {
+  log({ msg: 'starting web service', obj: 'web', addr: `${host}:${server.address().port}` });
+  if (scenario !== 'hang') {
+    log({
+      msg: 'started tunnel',
+      obj: 'tunnels',
+      name: tunnel.name,
+      addr: tunnel.config.addr,
+      url: tunnel.public_url,
+    });
+  }
+});
+
+process.on('SIGTERM', () => process.exit(0));
+process.on('SIGINT', () => process.exit(0));
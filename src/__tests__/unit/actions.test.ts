@@ -1,8 +1,10 @@
 import type { HandlerCallback, IAgentRuntime, Memory, State } from '@elizaos/core';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { getTunnelStatusAction } from '../../actions/get-tunnel-status';
+import { replayRequestAction } from '../../actions/replay-request';
 import { startTunnelAction } from '../../actions/start-tunnel';
 import { stopTunnelAction } from '../../actions/stop-tunnel';
+import { DomainInUseError } from '../../errors';
 import { MockNgrokService } from '../mocks/NgrokServiceMock';
 
 describe('Ngrok Actions', () => {
@@ -45,8 +47,243 @@ describe('Ngrok Actions', () => {
           mockCallback
         );
 
+      expect(result).toBe(true);
+      expect(mockTunnelService.startTunnel).toHaveBeenCalledWith(8080, { protocol: 'http' });
+    });
+
+    it('should start a TCP tunnel and report its public address', async () => {
+      mockMemory.content = { text: 'expose postgres on 5432 over tcp' };
+      (mockRuntime.useModel as any).mockResolvedValue('{"port": 5432, "protocol": "tcp"}');
+      mockTunnelService.startTunnel.mockResolvedValue('tcp://0.tcp.ngrok.io:12345');
+
+      const result = await startTunnelAction.handler(
+        mockRuntime,
+        mockMemory,
+        mockState,
+        {},
+        mockCallback
+      );
+
+      expect(result).toBe(true);
+      expect(mockTunnelService.startTunnel).toHaveBeenCalledWith(5432, { protocol: 'tcp' });
+      expect(mockCallback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          text: expect.stringContaining('Public Address: tcp://0.tcp.ngrok.io:12345'),
+          metadata: expect.objectContaining({
+            tunnelUrl: 'tcp://0.tcp.ngrok.io:12345',
+            port: 5432,
+            protocol: 'tcp',
+          }),
+        })
+      );
+    });
+
+    it('should forward to an upstream address on another host', async () => {
+      mockMemory.content = { text: 'expose the postgres container at db:5432 over tcp' };
+      (mockRuntime.useModel as any).mockResolvedValue(
+        '{"port": 5432, "upstream": "db:5432", "protocol": "tcp"}'
+      );
+
+      const result = await startTunnelAction.handler(
+        mockRuntime,
+        mockMemory,
+        mockState,
+        {},
+        mockCallback
+      );
+
+      expect(result).toBe(true);
+      expect(mockTunnelService.startTunnel).toHaveBeenCalledWith('db:5432', { protocol: 'tcp' });
+      const { text, metadata } = (mockCallback as any).mock.calls[0][0];
+      expect(text).toContain('🔌 Upstream: db:5432');
+      expect(metadata).toEqual(expect.objectContaining({ port: 5432, upstream: 'db:5432' }));
+    });
+
+    it('should read the upstream from the message when the response is not JSON', async () => {
+      mockMemory.content = { text: 'expose db:5432 over tcp' };
+      (mockRuntime.useModel as any).mockResolvedValue('Exposing port 5432 for you');
+
+      await startTunnelAction.handler(mockRuntime, mockMemory, mockState, {}, mockCallback);
+
+      expect(mockTunnelService.startTunnel).toHaveBeenCalledWith('db:5432', { protocol: 'tcp' });
+    });
+
+    it('should fail rather than guess a local port when the upstream cannot be read', async () => {
+      mockMemory.content = { text: 'expose the postgres container on 5432' };
+      (mockRuntime.useModel as any).mockResolvedValue('Exposing port 5432 for you');
+
+      const result = await startTunnelAction.handler(
+        mockRuntime,
+        mockMemory,
+        mockState,
+        {},
+        mockCallback
+      );
+
+      expect(result).toBe(false);
+      expect(mockTunnelService.startTunnel).not.toHaveBeenCalled();
+      expect((mockCallback as any).mock.calls[0][0].text).toContain(
+        'Could not tell which address to forward the tunnel to'
+      );
+    });
+
+    it('should read a fenced JSON response without turning on basic auth', async () => {
+      mockMemory.content = { text: 'tunnel on 8080' };
+      (mockRuntime.useModel as any).mockResolvedValue(
+        '```json\n{\n  "port": 8080,\n  "upstream": null,\n  "protocol": "http",\n  "basicAuth": false\n}\n```'
+      );
+      mockTunnelService.startTunnel.mockResolvedValue('https://test.ngrok.io');
+
+      const result = await startTunnelAction.handler(
+        mockRuntime,
+        mockMemory,
+        mockState,
+        {},
+        mockCallback
+      );
+
+      expect(result).toBe(true);
+      expect(mockTunnelService.startTunnel).toHaveBeenCalledWith(8080, { protocol: 'http' });
+      expect((mockTunnelService.startTunnel as any).mock.calls[0][1].basicAuth).toBeUndefined();
+    });
+
+    it('should read protection from the message rather than an unparseable response', async () => {
+      mockMemory.content = { text: 'tunnel on 8080' };
+      (mockRuntime.useModel as any).mockResolvedValue(
+        'Sure! Use "basicAuth": false with port 8080'
+      );
+
+      await startTunnelAction.handler(mockRuntime, mockMemory, mockState, {}, mockCallback);
+
+      expect(mockTunnelService.startTunnel).toHaveBeenCalledWith(8080, { protocol: 'http' });
+      expect((mockTunnelService.startTunnel as any).mock.calls[0][1].basicAuth).toBeUndefined();
+    });
+
+    it('should require webhook signatures passed through the action options', async () => {
+      mockMemory.content = { text: 'expose my stripe webhook handler on 4242' };
+      (mockRuntime.useModel as any).mockResolvedValue('{"port": 4242}');
+      mockTunnelService.startTunnel.mockResolvedValue('https://test.ngrok.io');
+      mockTunnelService.getStatus.mockReturnValue({ webhookVerification: 'stripe' });
+      const verifyWebhook = { provider: 'stripe', secret: 'whsec_123' };
+
+      await startTunnelAction.handler(
+        mockRuntime,
+        mockMemory,
+        mockState,
+        { verifyWebhook },
+        mockCallback
+      );
+
+      expect(mockTunnelService.startTunnel).toHaveBeenCalledWith(4242, {
+        protocol: 'http',
+        verifyWebhook,
+      });
+      const response = (mockCallback as any).mock.calls[0][0];
+      expect(response.text).toContain(
+        'Only requests with a valid stripe signature reach your service'
+      );
+      expect(response.text).not.toContain('whsec_123');
+    });
+
+    describe('with generated basic auth credentials', () => {
+      const password = () =>
+        (mockTunnelService.startTunnel as any).mock.calls[0][1].basicAuth.password as string;
+
+      beforeEach(() => {
+        mockMemory.content = {
+          text: 'start a password protected tunnel on 8080',
+          source: 'discord',
+        };
+        (mockMemory as any).roomId = 'room-1';
+        (mockMemory as any).entityId = 'user-1';
+        (mockRuntime.useModel as any).mockResolvedValue('{"port": 8080, "basicAuth": true}');
+        mockTunnelService.startTunnel.mockResolvedValue('https://test.ngrok.io');
+        (mockRuntime as any).sendMessageToTarget = vi.fn(async () => {});
+      });
+
+      it('should generate strong credentials and show them in a direct conversation', async () => {
+        (mockRuntime as any).getRoom = vi.fn(async () => ({ id: 'room-1', type: 'DM' }));
+
+        const result = await startTunnelAction.handler(
+          mockRuntime,
+          mockMemory,
+          mockState,
+          {},
+          mockCallback
+        );
+
         expect(result).toBe(true);
-        expect(mockTunnelService.startTunnel).toHaveBeenCalledWith(8080);
+        expect(mockTunnelService.startTunnel).toHaveBeenCalledWith(8080, {
+          protocol: 'http',
+          basicAuth: { username: expect.stringMatching(/^agent-/), password: expect.any(String) },
+        });
+        expect(password().length).toBeGreaterThanOrEqual(32);
+        const response = (mockCallback as any).mock.calls[0][0];
+        expect(response.text).toContain(`🔑 Password: ${password()}`);
+        expect(JSON.stringify(response.metadata)).not.toContain(password());
+        expect(mockRuntime.sendMessageToTarget).not.toHaveBeenCalled();
+      });
+
+      it('should send the credentials privately instead of posting them to a shared room', async () => {
+        (mockRuntime as any).getRoom = vi.fn(async () => ({ id: 'room-1', type: 'GROUP' }));
+
+        await startTunnelAction.handler(mockRuntime, mockMemory, mockState, {}, mockCallback);
+
+        expect(mockRuntime.sendMessageToTarget).toHaveBeenCalledWith(
+          { source: 'discord', entityId: 'user-1' },
+          { text: expect.stringContaining(password()) }
+        );
+        const response = (mockCallback as any).mock.calls[0][0];
+        expect(response.text).toContain('I sent you the credentials in a direct message');
+        expect(response.text).not.toContain(password());
+      });
+
+      it('should stop the tunnel when the credentials cannot be delivered privately', async () => {
+        (mockRuntime as any).getRoom = vi.fn(async () => ({ id: 'room-1', type: 'GROUP' }));
+        (mockRuntime.sendMessageToTarget as any).mockRejectedValue(new Error('No DM channel'));
+
+        const result = await startTunnelAction.handler(
+          mockRuntime,
+          mockMemory,
+          mockState,
+          {},
+          mockCallback
+        );
+
+        expect(result).toBe(false);
+        expect(mockTunnelService.stopTunnel).toHaveBeenCalled();
+        const response = (mockCallback as any).mock.calls[0][0];
+        expect(response.text).toContain('Could not send the tunnel credentials to you privately');
+        expect(response.text).not.toContain(password());
+      });
+    });
+
+    it('should give tailored guidance for typed ngrok failures', async () => {
+      mockMemory.content = { text: 'start tunnel on port 8080' };
+      (mockRuntime.useModel as any).mockResolvedValue('{"port": 8080}');
+      mockTunnelService.startTunnel.mockRejectedValue(
+        new DomainInUseError(undefined, 'ERR_NGROK_334')
+      );
+
+      const result = await startTunnelAction.handler(
+        mockRuntime,
+        mockMemory,
+        mockState,
+        {},
+        mockCallback
+      );
+
+      expect(result).toBe(false);
+      expect(mockCallback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          text: expect.stringContaining('NGROK_USE_RANDOM_SUBDOMAIN=true'),
+          metadata: expect.objectContaining({
+            action: 'tunnel_failed',
+            errorCode: 'DOMAIN_IN_USE',
+            ngrokErrorCode: 'ERR_NGROK_334',
+          }),
+        })
+      );
     });
   });
 
@@ -79,6 +316,26 @@ describe('Ngrok Actions', () => {
         })
       );
     });
+
+    it('should name the upstream a stopped tunnel forwarded to', async () => {
+      mockTunnelService.isActive.mockReturnValue(true);
+      mockTunnelService.getStatus.mockReturnValue({
+        active: true,
+        url: 'tcp://0.tcp.ngrok.io:12345',
+        port: 5432,
+        upstream: 'db:5432',
+        startedAt: new Date(),
+        provider: 'ngrok',
+      });
+
+      await stopTunnelAction.handler(mockRuntime, mockMemory, mockState, {}, mockCallback);
+
+      const { text, metadata } = (mockCallback as any).mock.calls[0][0];
+      expect(text).toContain('🔌 Was forwarding to: db:5432');
+      expect(metadata).toEqual(
+        expect.objectContaining({ previousPort: 5432, previousUpstream: 'db:5432' })
+      );
+    });
   });
 
   describe('getTunnelStatusAction', () => {
@@ -100,6 +357,109 @@ describe('Ngrok Actions', () => {
       );
       });
 
+    it('should report an unhealthy tunnel differently from an inactive one', async () => {
+      mockTunnelService.getStatus.mockReturnValue({
+        active: true,
+        url: 'https://fake.ngrok.io',
+        port: 8080,
+        startedAt: new Date(),
+        provider: 'ngrok',
+        healthy: false,
+        healthError: 'Local port 8080 is unreachable: connect ECONNREFUSED 127.0.0.1:8080',
+      });
+
+      await getTunnelStatusAction.handler(mockRuntime, mockMemory, mockState, {}, mockCallback);
+
+      expect(mockCallback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          text: expect.stringContaining('⚠️ Ngrok tunnel is running but unhealthy'),
+          metadata: expect.objectContaining({ action: 'tunnel_unhealthy', healthy: false }),
+        })
+      );
+    });
+
+    it('should include the traffic metrics of the tunnel', async () => {
+      mockTunnelService.getStatus.mockReturnValue({
+        active: true,
+        url: 'https://fake.ngrok.io',
+        port: 8080,
+        startedAt: new Date(),
+        provider: 'ngrok',
+        metrics: {
+          connections: { total: 12, open: 2, rate1m: 0.5, rate5m: 0.25, rate15m: 0.1 },
+          requests: { total: 40, rate1m: 2, rate5m: 1.5, rate15m: 0.5, p50Ms: 12, p90Ms: 88 },
+          updatedAt: new Date(),
+        },
+      });
+
+      await getTunnelStatusAction.handler(mockRuntime, mockMemory, mockState, {}, mockCallback);
+
+      expect(mockTunnelService.refreshTunnelMetrics).toHaveBeenCalled();
+      const { text } = (mockCallback as any).mock.calls[0][0];
+      expect(text).toContain('🔗 Connections: 12 total, 2 open, 30.0/min');
+      expect(text).toContain('📈 Requests: 40 total, 2.0/s (5m: 1.5/s)');
+      expect(text).toContain('⏲️ Response time: p50 12ms, p90 88ms');
+    });
+
+    it('should report the identity policy guarding the tunnel', async () => {
+      mockTunnelService.getStatus.mockReturnValue({
+        active: true,
+        url: 'https://fake.ngrok.io',
+        port: 8080,
+        startedAt: new Date(),
+        provider: 'ngrok',
+        identityPolicy: {
+          provider: 'google',
+          allowEmails: ['alice@example.com'],
+          allowDomains: ['example.com'],
+        },
+      });
+
+      await getTunnelStatusAction.handler(mockRuntime, mockMemory, mockState, {}, mockCallback);
+
+      expect(mockCallback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          text: expect.stringContaining(
+            '🔐 Access: google sign-in, allowed: alice@example.com, example.com'
+          ),
+        })
+      );
+    });
+
+    it('should name the upstream when it is not a local port', async () => {
+      mockTunnelService.getStatus.mockReturnValue({
+        active: true,
+        url: 'https://fake.ngrok.io',
+        port: null,
+        upstream: 'unix:///run/app.sock',
+        startedAt: new Date(),
+        provider: 'ngrok',
+      });
+
+      await getTunnelStatusAction.handler(mockRuntime, mockMemory, mockState, {}, mockCallback);
+
+      const { text } = (mockCallback as any).mock.calls[0][0];
+      expect(text).toContain('🔌 Upstream: unix:///run/app.sock');
+      expect(text).not.toContain('Local Port');
+    });
+
+    it('should report which traffic policy is live', async () => {
+      mockTunnelService.getStatus.mockReturnValue({
+        active: true,
+        url: 'https://fake.ngrok.io',
+        port: 8080,
+        startedAt: new Date(),
+        provider: 'ngrok',
+        trafficPolicyDigest: `sha256:3f2a9c0d1e4b${'0'.repeat(52)}`,
+      });
+
+      await getTunnelStatusAction.handler(mockRuntime, mockMemory, mockState, {}, mockCallback);
+
+      const { text, metadata } = (mockCallback as any).mock.calls[0][0];
+      expect(text).toContain('📜 Traffic policy: sha256:3f2a9c0d1e4b');
+      expect(metadata.trafficPolicyDigest).toMatch(/^sha256:[0-9a-f]{64}$/);
+    });
+
       it('should report inactive tunnel status', async () => {
       mockTunnelService.getStatus.mockReturnValue({
           active: false,
@@ -118,4 +478,98 @@ describe('Ngrok Actions', () => {
       );
     });
   });
+
+  describe('replayRequestAction', () => {
+    const captured = (id: string, method: string, status: number | null) => ({
+      id,
+      method,
+      path: '/webhook/stripe',
+      uri: '/webhook/stripe',
+      status,
+    });
+
+    beforeEach(async () => {
+      await mockTunnelService.startTunnel(3000);
+      mockTunnelService.replayRequest.mockResolvedValue({
+        requestId: 'req_2',
+        method: 'POST',
+        path: '/webhook/stripe',
+        status: 200,
+        durationMs: 35,
+        responseHeaders: {},
+        responseBody: 'ok',
+        responseBodyTruncated: false,
+        modified: false,
+      });
+    });
+
+    it('should replay the newest failed POST', async () => {
+      (mockRuntime.useModel as any).mockResolvedValue(
+        '{"requestId": null, "method": "POST", "path": null, "failed": true}'
+      );
+      mockTunnelService.getRecentRequests.mockResolvedValue([
+        captured('req_4', 'GET', 500),
+        captured('req_3', 'POST', 200),
+        captured('req_2', 'POST', 502),
+        captured('req_1', 'POST', 500),
+      ]);
+      mockMemory.content = { text: 'Replay the last failed POST' };
+
+      const result = await replayRequestAction.handler(
+        mockRuntime,
+        mockMemory,
+        mockState,
+        {},
+        mockCallback
+      );
+
+      expect(result).toBe(true);
+      expect(mockTunnelService.replayRequest).toHaveBeenCalledWith('req_2');
+      expect(mockCallback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          text: expect.stringContaining('🔁 Replayed POST /webhook/stripe (req_2)'),
+          metadata: expect.objectContaining({ action: 'request_replayed', status: 200 }),
+        })
+      );
+    });
+
+    it('should read the selector from the message when the model response is not JSON', async () => {
+      (mockRuntime.useModel as any).mockResolvedValue('Sure, replaying it now');
+      mockMemory.content = { text: 'Please replay req_7Hq2 again' };
+
+      await replayRequestAction.handler(mockRuntime, mockMemory, mockState, {}, mockCallback);
+
+      expect(mockTunnelService.getRecentRequests).not.toHaveBeenCalled();
+      expect(mockTunnelService.replayRequest).toHaveBeenCalledWith('req_7Hq2');
+    });
+
+    it('should report when no captured request matches', async () => {
+      (mockRuntime.useModel as any).mockResolvedValue(
+        '{"requestId": null, "method": "POST", "path": "/webhook/github", "failed": true}'
+      );
+      mockTunnelService.getRecentRequests.mockResolvedValue([captured('req_1', 'POST', 200)]);
+      mockMemory.content = { text: 'Replay the failed POST to /webhook/github' };
+
+      const result = await replayRequestAction.handler(
+        mockRuntime,
+        mockMemory,
+        mockState,
+        {},
+        mockCallback
+      );
+
+      expect(result).toBe(false);
+      expect(mockTunnelService.getRecentRequests).toHaveBeenCalledWith({
+        path: '/webhook/github',
+        limit: 100,
+      });
+      expect(mockTunnelService.replayRequest).not.toHaveBeenCalled();
+      expect(mockCallback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          text: expect.stringContaining('No captured failed POST request to /webhook/github'),
+          metadata: expect.objectContaining({ action: 'replay_not_found' }),
+        })
+      );
+    });
+  });
 });
@@ -0,0 +1,384 @@
+import { spawn, type ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  CliTunnelBackend,
+  buildNgrokArgs,
+  buildTunnelPolicy,
+  parseInspectorAddr,
+} from '../../services/backends/CliTunnelBackend';
+import type { TunnelSpec } from '../../services/backends/TunnelBackend';
+import { parseUpstream } from '../../services/upstream';
+
+describe('CliTunnelBackend', () => {
+  describe('parseInspectorAddr', () => {
+    it('should read the bound address from the web service log line', () => {
+      const line =
+        '{"addr":"127.0.0.1:4041","lvl":"info","msg":"starting web service","obj":"web","t":"2024-01-01T00:00:00Z"}';
+
+      expect(parseInspectorAddr(line)).toBe('127.0.0.1:4041');
+    });
+
+    it('should ignore other log lines and non-JSON output', () => {
+      expect(parseInspectorAddr('{"lvl":"info","msg":"client session established"}')).toBeNull();
+      expect(
+        parseInspectorAddr('t=2024 lvl=info msg="starting web service" addr=127.0.0.1:4040')
+      ).toBeNull();
+    });
+  });
+
+  describe('buildNgrokArgs', () => {
+    const base = { name: 'default', upstream: parseUpstream(3000), protocol: 'http' as const };
+
+    it('should point ngrok at the private config and inspector address', () => {
+      expect(buildNgrokArgs(base, '/tmp/ngrok.yml', '127.0.0.1:4041')).toEqual([
+        'http',
+        '3000',
+        '--config',
+        '/tmp/ngrok.yml',
+        '--web-addr',
+        '127.0.0.1:4041',
+        '--log',
+        'stdout',
+        '--log-format',
+        'json',
+      ]);
+    });
+
+    it('should forward to upstream hosts and Unix sockets', () => {
+      const args = (upstream: string) =>
+        buildNgrokArgs(
+          { ...base, upstream: parseUpstream(upstream) },
+          '/tmp/ngrok.yml',
+          '127.0.0.1:4041'
+        );
+
+      expect(args('db:5432')[1]).toBe('db:5432');
+      expect(args('http://printer.lan:8080')[1]).toBe('http://printer.lan:8080');
+      expect(args('unix:///run/app.sock')[1]).toBe('unix:/run/app.sock');
+    });
+
+    it('should pass header rules and the host header', () => {
+      const args = buildNgrokArgs(
+        {
+          ...base,
+          requestHeaders: { add: { 'X-Forwarded-Agent': 'eliza' }, remove: ['Cookie'] },
+          responseHeaders: { add: { 'Cache-Control': 'no-store' }, remove: ['Server'] },
+          hostHeader: 'rewrite',
+        },
+        '/tmp/ngrok.yml',
+        '127.0.0.1:4041'
+      );
+
+      expect(args.slice(10)).toEqual([
+        '--request-header-add',
+        'X-Forwarded-Agent:eliza',
+        '--request-header-remove',
+        'Cookie',
+        '--response-header-add',
+        'Cache-Control:no-store',
+        '--response-header-remove',
+        'Server',
+        '--host-header',
+        'rewrite',
+      ]);
+    });
+
+    it('should prefer the domain over the subdomain', () => {
+      const args = buildNgrokArgs(
+        { ...base, domain: 'agent.example.com', subdomain: 'agent' },
+        '/tmp/ngrok.yml',
+        '127.0.0.1:4041'
+      );
+
+      expect(args.slice(10)).toEqual(['--domain', 'agent.example.com']);
+
+      const subdomainArgs = buildNgrokArgs(
+        { ...base, subdomain: 'agent' },
+        '/tmp/ngrok.yml',
+        '127.0.0.1:4041'
+      );
+      expect(subdomainArgs.slice(10)).toEqual(['--subdomain', 'agent']);
+    });
+
+    it('should pass access control flags', () => {
+      const args = buildNgrokArgs(
+        {
+          ...base,
+          region: 'eu',
+          ipRestriction: { allowCidrs: ['192.0.2.0/24'], denyCidrs: ['192.0.2.7/32'] },
+        },
+        '/tmp/ngrok.yml',
+        '127.0.0.1:4041'
+      );
+
+      expect(args.slice(10)).toEqual([
+        '--region',
+        'eu',
+        '--cidr-allow',
+        '192.0.2.0/24',
+        '--cidr-deny',
+        '192.0.2.7/32',
+      ]);
+    });
+
+    it('should point ngrok at the policy file written next to the config', () => {
+      const trafficPolicy = { on_http_request: [{ actions: [{ type: 'deny' }] }] };
+      const args = buildNgrokArgs(
+        { ...base, name: 'api', trafficPolicy },
+        '/tmp/elizaos-ngrok-agent/ngrok.yml',
+        '127.0.0.1:4041'
+      );
+
+      expect(args.slice(10)).toEqual([
+        '--traffic-policy-file',
+        '/tmp/elizaos-ngrok-agent/policy-api.json',
+      ]);
+    });
+
+    it('should keep secrets off the command line', () => {
+      const specs: TunnelSpec[] = [
+        { ...base, basicAuth: { username: 'agent', password: 'correct-horse' } },
+        {
+          ...base,
+          identity: {
+            provider: 'oidc',
+            issuerUrl: 'https://id.example.com',
+            clientId: 'eliza',
+            clientSecret: 'oidc-secret',
+          },
+        },
+        { ...base, verifyWebhook: { provider: 'github', secret: 'whsec' } },
+      ];
+
+      for (const spec of specs) {
+        const args = buildNgrokArgs(spec, '/tmp/ngrok.yml', '127.0.0.1:4041');
+        expect(args.slice(10)).toEqual(['--traffic-policy-file', '/tmp/policy-default.json']);
+        expect(args.join(' ')).not.toMatch(/correct-horse|oidc-secret|whsec/);
+      }
+    });
+  });
+
+  describe('buildTunnelPolicy', () => {
+    const base = { name: 'default', upstream: parseUpstream(3000), protocol: 'http' as const };
+
+    it('should enforce secrets before the rules of the tunnel policy', () => {
+      const policy = buildTunnelPolicy({
+        ...base,
+        basicAuth: { username: 'agent', password: 'correct-horse' },
+        trafficPolicy: {
+          on_http_request: [{ actions: [{ type: 'deny' }] }],
+          on_http_response: [{ actions: [{ type: 'add-headers' }] }],
+        },
+      });
+
+      expect(policy).toEqual({
+        on_http_request: [
+          {
+            actions: [{ type: 'basic-auth', config: { credentials: ['agent:correct-horse'] } }],
+          },
+          { actions: [{ type: 'deny' }] },
+        ],
+        on_http_response: [{ actions: [{ type: 'add-headers' }] }],
+      });
+    });
+
+    it('should configure OpenID Connect and webhook verification', () => {
+      expect(
+        buildTunnelPolicy({
+          ...base,
+          identity: {
+            provider: 'oidc',
+            issuerUrl: 'https://id.example.com',
+            clientId: 'eliza',
+            clientSecret: 'oidc-secret',
+          },
+        })?.on_http_request?.[0].actions
+      ).toEqual([
+        {
+          type: 'openid-connect',
+          config: {
+            issuer_url: 'https://id.example.com',
+            client_id: 'eliza',
+            client_secret: 'oidc-secret',
+          },
+        },
+      ]);
+      expect(
+        buildTunnelPolicy({ ...base, verifyWebhook: { provider: 'github', secret: 'whsec' } })
+          ?.on_http_request?.[0].actions
+      ).toEqual([{ type: 'verify-webhook', config: { provider: 'github', secret: 'whsec' } }]);
+    });
+
+    it('should leave tunnels without secrets to their own policy', () => {
+      expect(buildTunnelPolicy(base)).toBeNull();
+      expect(buildTunnelPolicy({ ...base, identity: { provider: 'google' } })).toBeNull();
+    });
+  });
+
+  describe('reserveInspectorAddr', () => {
+    it('should pick a free local port when no address is configured', async () => {
+      const backend = new CliTunnelBackend();
+
+      const addr = await backend.reserveInspectorAddr();
+
+      expect(addr).toMatch(/^127\.0\.0\.1:\d+$/);
+      expect(addr).not.toBe('127.0.0.1:4040');
+    });
+
+    it('should use NGROK_INSPECT_ADDR while it is not taken by another process', async () => {
+      const backend = new CliTunnelBackend({ inspectAddr: '127.0.0.1:4555' });
+
+      expect(await backend.reserveInspectorAddr()).toBe('127.0.0.1:4555');
+
+      (backend as any).inspectorAddrs.add('127.0.0.1:4555');
+      expect(await backend.reserveInspectorAddr()).not.toBe('127.0.0.1:4555');
+    });
+
+    it('should pick a free port on a configured host without a port', async () => {
+      const backend = new CliTunnelBackend({ inspectAddr: 'localhost' });
+
+      expect(await backend.reserveInspectorAddr()).toMatch(/^localhost:\d+$/);
+    });
+  });
+
+  describe('private ngrok config', () => {
+    it('should write an agent-scoped config with the auth token outside the global config', async () => {
+      const backend = new CliTunnelBackend({ authToken: 'secret-token', agentId: 'agent-123' });
+
+      const configPath = backend.ensureConfigFile();
+
+      expect(configPath.startsWith(os.tmpdir())).toBe(true);
+      expect(configPath).toContain('elizaos-ngrok-agent-123-');
+      expect(fs.readFileSync(configPath, 'utf8')).toBe('version: "2"\nauthtoken: "secret-token"\n');
+      expect(fs.statSync(configPath).mode & 0o777).toBe(0o600);
+      expect(backend.ensureConfigFile()).toBe(configPath);
+
+      await backend.dispose();
+    });
+
+    it('should give each backend its own config file', async () => {
+      const first = new CliTunnelBackend({ authToken: 'token-a', agentId: 'agent' });
+      const second = new CliTunnelBackend({ authToken: 'token-b', agentId: 'agent' });
+
+      expect(first.ensureConfigFile()).not.toBe(second.ensureConfigFile());
+
+      await first.dispose();
+      await second.dispose();
+    });
+
+    it('should remove the config file on dispose', async () => {
+      const backend = new CliTunnelBackend({ authToken: 'secret-token' });
+      const configPath = backend.ensureConfigFile();
+
+      await backend.dispose();
+
+      expect(fs.existsSync(configPath)).toBe(false);
+    });
+  });
+
+  describe('orphaned process cleanup', () => {
+    const children: ChildProcess[] = [];
+
+    // Stands in for an ngrok process; the extra arguments only show up in its command line
+    const spawnFakeNgrok = (configPath: string) => {
+      const child = spawn(process.execPath, [
+        '-e',
+        'setInterval(() => {}, 1000)',
+        'ngrok',
+        '--config',
+        configPath,
+      ]);
+      children.push(child);
+      return child;
+    };
+
+    const exitOf = (child: ChildProcess) =>
+      child.exitCode !== null || child.signalCode !== null
+        ? Promise.resolve()
+        : new Promise((resolve) => child.once('exit', resolve));
+
+    const deadPid = async () => {
+      const child = spawn(process.execPath, ['-e', '']);
+      await exitOf(child);
+      return child.pid!;
+    };
+
+    const writeMarker = (
+      backend: CliTunnelBackend,
+      pid: number,
+      ownerPid: number,
+      configPath: string
+    ) => {
+      const markerDir = (backend as any).markerDir;
+      fs.mkdirSync(markerDir, { recursive: true });
+      const markerPath = path.join(markerDir, `${pid}.json`);
+      fs.writeFileSync(
+        markerPath,
+        JSON.stringify({
+          pid,
+          ownerPid,
+          tunnel: 'default',
+          configPath,
+          startedAt: new Date().toISOString(),
+        })
+      );
+      return markerPath;
+    };
+
+    afterEach(() => {
+      children.forEach((child) => child.kill('SIGKILL'));
+      children.length = 0;
+    });
+
+    it('should terminate ngrok processes left behind by a killed agent', async () => {
+      const backend = new CliTunnelBackend({ agentId: `orphan-${process.pid}-a` });
+      const orphanConfigDir = fs.mkdtempSync(path.join(os.tmpdir(), 'elizaos-ngrok-orphan-'));
+      const orphanConfig = path.join(orphanConfigDir, 'ngrok.yml');
+      const orphan = spawnFakeNgrok(orphanConfig);
+      const markerPath = writeMarker(backend, orphan.pid!, await deadPid(), orphanConfig);
+
+      await backend.cleanupOrphanedProcesses();
+      await exitOf(orphan);
+
+      expect(orphan.signalCode).toBe('SIGTERM');
+      expect(fs.existsSync(markerPath)).toBe(false);
+      expect(fs.existsSync(orphanConfigDir)).toBe(false);
+    });
+
+    it('should leave ngrok processes it does not own running', async () => {
+      const backend = new CliTunnelBackend({ agentId: `orphan-${process.pid}-b` });
+      // The pid now runs something without the recorded config path, e.g. a user's own ngrok
+      const userNgrok = spawnFakeNgrok(path.join(os.homedir(), '.config/ngrok/ngrok.yml'));
+      const markerPath = writeMarker(
+        backend,
+        userNgrok.pid!,
+        await deadPid(),
+        path.join(os.tmpdir(), 'elizaos-ngrok-gone-xyz', 'ngrok.yml')
+      );
+
+      await backend.cleanupOrphanedProcesses();
+
+      expect(userNgrok.exitCode).toBeNull();
+      expect(userNgrok.signalCode).toBeNull();
+      expect(fs.existsSync(markerPath)).toBe(false);
+    });
+
+    it('should skip processes whose agent process is still running', async () => {
+      const backend = new CliTunnelBackend({ agentId: `orphan-${process.pid}-c` });
+      const owner = spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)']);
+      children.push(owner);
+      const configPath = path.join(os.tmpdir(), 'elizaos-ngrok-live-xyz', 'ngrok.yml');
+      const running = spawnFakeNgrok(configPath);
+      const markerPath = writeMarker(backend, running.pid!, owner.pid!, configPath);
+
+      await backend.cleanupOrphanedProcesses();
+
+      expect(running.signalCode).toBeNull();
+      expect(fs.existsSync(markerPath)).toBe(true);
+      fs.rmSync(markerPath);
+    });
+  });
+});
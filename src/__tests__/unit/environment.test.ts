@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { validateNgrokConfig, ngrokEnvSchema } from '../../environment';
-import type { IAgentRuntime } from '@elizaos/core';
+import { elizaLogger, type IAgentRuntime } from '@elizaos/core';
 import { z } from 'zod';
 
 describe('Ngrok Environment Configuration', () => {
@@ -70,6 +70,159 @@ describe('Ngrok Environment Configuration', () => {
       expect(typeof result.NGROK_DEFAULT_PORT).toBe('number');
     });
 
+    it('should default to the CLI backend', () => {
+      const result = ngrokEnvSchema.parse({});
+
+      expect(result.NGROK_BACKEND).toBe('cli');
+    });
+
+    it('should accept the SDK backend and reject unknown backends', () => {
+      expect(ngrokEnvSchema.parse({ NGROK_BACKEND: 'sdk' }).NGROK_BACKEND).toBe('sdk');
+      expect(() => ngrokEnvSchema.parse({ NGROK_BACKEND: 'docker' })).toThrow(z.ZodError);
+    });
+
+    it('should accept a TLS certificate and key pair that exist', () => {
+      const result = ngrokEnvSchema.parse({
+        NGROK_TLS_CERT_PATH: __filename,
+        NGROK_TLS_KEY_PATH: __filename,
+      });
+
+      expect(result.NGROK_TLS_CERT_PATH).toBe(__filename);
+      expect(result.NGROK_TLS_KEY_PATH).toBe(__filename);
+    });
+
+    it('should reject a TLS certificate without a key', () => {
+      expect(() => ngrokEnvSchema.parse({ NGROK_TLS_CERT_PATH: __filename })).toThrow(
+        'must be set together'
+      );
+    });
+
+    it('should reject TLS files that do not exist', () => {
+      expect(() =>
+        ngrokEnvSchema.parse({
+          NGROK_TLS_CERT_PATH: '/nonexistent/cert.pem',
+          NGROK_TLS_KEY_PATH: '/nonexistent/key.pem',
+        })
+      ).toThrow('File does not exist');
+    });
+
+    it('should accept basic auth as username:password', () => {
+      expect(ngrokEnvSchema.parse({ NGROK_BASIC_AUTH: 'dev:correct-horse' }).NGROK_BASIC_AUTH).toBe(
+        'dev:correct-horse'
+      );
+      expect(() => ngrokEnvSchema.parse({ NGROK_BASIC_AUTH: 'dev:short' })).toThrow(
+        'Expected username:password'
+      );
+      expect(() => ngrokEnvSchema.parse({ NGROK_BASIC_AUTH: 'correct-horse' })).toThrow(z.ZodError);
+    });
+
+    it('should parse the OAuth allowlists', () => {
+      const result = ngrokEnvSchema.parse({
+        NGROK_OAUTH_PROVIDER: 'google',
+        NGROK_OAUTH_ALLOW_EMAILS: 'alice@example.com, bob@example.com',
+        NGROK_OAUTH_ALLOW_DOMAINS: 'example.com',
+      });
+
+      expect(result.NGROK_OAUTH_ALLOW_EMAILS).toEqual(['alice@example.com', 'bob@example.com']);
+      expect(result.NGROK_OAUTH_ALLOW_DOMAINS).toEqual(['example.com']);
+    });
+
+    it('should reject invalid identity settings', () => {
+      expect(() => ngrokEnvSchema.parse({ NGROK_OAUTH_PROVIDER: 'myspace' })).toThrow(z.ZodError);
+      expect(() =>
+        ngrokEnvSchema.parse({
+          NGROK_OAUTH_PROVIDER: 'github',
+          NGROK_OAUTH_ALLOW_EMAILS: 'not-an-email',
+        })
+      ).toThrow('Expected an email address');
+      expect(() => ngrokEnvSchema.parse({ NGROK_OAUTH_ALLOW_DOMAINS: 'example.com' })).toThrow(
+        'require NGROK_OAUTH_PROVIDER'
+      );
+      expect(() => ngrokEnvSchema.parse({ NGROK_OAUTH_PROVIDER: 'oidc' })).toThrow(
+        'NGROK_OAUTH_PROVIDER=oidc requires NGROK_OIDC_ISSUER_URL'
+      );
+      expect(() =>
+        ngrokEnvSchema.parse({
+          NGROK_OAUTH_PROVIDER: 'google',
+          NGROK_BASIC_AUTH: 'dev:correct-horse',
+        })
+      ).toThrow('cannot be combined');
+    });
+
+    it('should parse IPv4 and IPv6 CIDR lists', () => {
+      const result = ngrokEnvSchema.parse({
+        NGROK_IP_ALLOW: '192.30.252.0/22, 2606:50c0::/32',
+        NGROK_IP_DENY: '192.30.252.10/32',
+      });
+
+      expect(result.NGROK_IP_ALLOW).toEqual(['192.30.252.0/22', '2606:50c0::/32']);
+      expect(result.NGROK_IP_DENY).toEqual(['192.30.252.10/32']);
+    });
+
+    it('should reject malformed CIDRs', () => {
+      for (const value of ['192.30.252.0', '192.30.252.0/33', '300.1.1.1/8', 'office', '::1/129']) {
+        expect(() => ngrokEnvSchema.parse({ NGROK_IP_ALLOW: value })).toThrow('Expected a CIDR');
+      }
+    });
+
+    it('should validate the webhook verification settings', () => {
+      const result = ngrokEnvSchema.parse({
+        NGROK_VERIFY_WEBHOOK_PROVIDER: 'stripe',
+        NGROK_VERIFY_WEBHOOK_SECRET: 'whsec_123',
+      });
+
+      expect(result.NGROK_VERIFY_WEBHOOK_PROVIDER).toBe('stripe');
+      expect(() => ngrokEnvSchema.parse({ NGROK_VERIFY_WEBHOOK_PROVIDER: 'paypal' })).toThrow(
+        z.ZodError
+      );
+      expect(() => ngrokEnvSchema.parse({ NGROK_VERIFY_WEBHOOK_PROVIDER: 'github' })).toThrow(
+        'must be set together'
+      );
+      expect(() =>
+        ngrokEnvSchema.parse({
+          NGROK_VERIFY_WEBHOOK_PROVIDER: 'github',
+          NGROK_VERIFY_WEBHOOK_SECRET: 'secret',
+          NGROK_BASIC_AUTH: 'dev:correct-horse',
+        })
+      ).toThrow('cannot be combined');
+    });
+
+    it('should validate the header settings', () => {
+      const result = ngrokEnvSchema.parse({
+        NGROK_REQUEST_HEADER_ADD: 'X-Forwarded-Agent: eliza, X-Env:dev',
+        NGROK_RESPONSE_HEADER_REMOVE: 'Server, X-Powered-By',
+        NGROK_HOST_HEADER: 'rewrite',
+      });
+
+      expect(result.NGROK_REQUEST_HEADER_ADD).toEqual(['X-Forwarded-Agent: eliza', 'X-Env:dev']);
+      expect(result.NGROK_RESPONSE_HEADER_REMOVE).toEqual(['Server', 'X-Powered-By']);
+      expect(result.NGROK_HOST_HEADER).toBe('rewrite');
+      // ZodError messages are JSON, which escapes the quotes, so check the issue itself
+      const missingValue = ngrokEnvSchema.safeParse({
+        NGROK_REQUEST_HEADER_ADD: 'X-Forwarded-Agent',
+      });
+      expect(missingValue.success).toBe(false);
+      expect(missingValue.error?.errors[0].message).toContain('Expected "Name: value"');
+      expect(() => ngrokEnvSchema.parse({ NGROK_RESPONSE_HEADER_REMOVE: 'Bad Header' })).toThrow(
+        'Expected an HTTP header name'
+      );
+    });
+
+    it('should accept one traffic policy source', () => {
+      const result = ngrokEnvSchema.parse({ NGROK_TRAFFIC_POLICY: 'on_tcp_connect: []' });
+
+      expect(result.NGROK_TRAFFIC_POLICY).toBe('on_tcp_connect: []');
+      expect(() =>
+        ngrokEnvSchema.parse({ NGROK_TRAFFIC_POLICY_FILE: '/nonexistent/policy.yml' })
+      ).toThrow('File does not exist');
+      expect(() =>
+        ngrokEnvSchema.parse({
+          NGROK_TRAFFIC_POLICY: 'on_tcp_connect: []',
+          NGROK_TRAFFIC_POLICY_FILE: __filename,
+        })
+      ).toThrow('not both');
+    });
+
     it('should handle empty port string', () => {
       const config = {
         NGROK_DEFAULT_PORT: '',
@@ -202,6 +355,29 @@ describe('Ngrok Environment Configuration', () => {
 
       expect(config.NGROK_DEFAULT_PORT).toBe(65535);
     });
+
+    it('should not log secrets', async () => {
+      const debug = vi.spyOn(elizaLogger, 'debug').mockImplementation(() => {});
+      const settings: Record<string, string> = {
+        NGROK_AUTH_TOKEN: 'runtime-token',
+        NGROK_BASIC_AUTH: 'dev:correct-horse',
+        NGROK_OIDC_CLIENT_ID: 'eliza',
+        NGROK_OIDC_CLIENT_SECRET: 'oidc-secret',
+        NGROK_VERIFY_WEBHOOK_PROVIDER: 'github',
+        NGROK_VERIFY_WEBHOOK_SECRET: 'whsec_123',
+      };
+      (mockRuntime.getSetting as any).mockImplementation((key: string) => settings[key]);
+
+      // Every secret at once is not a valid combination, but the settings are logged before parsing
+      await expect(validateNgrokConfig(mockRuntime)).rejects.toThrow('cannot be combined');
+
+      const logged = JSON.stringify(debug.mock.calls);
+      expect(logged).toContain('NGROK_OIDC_CLIENT_ID');
+      for (const secret of ['runtime-token', 'correct-horse', 'oidc-secret', 'whsec_123']) {
+        expect(logged).not.toContain(secret);
+      }
+      debug.mockRestore();
+    });
   });
 
   describe('Edge cases', () => {
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AuthTokenInvalidError,
+  BinaryMissingError,
+  DomainInUseError,
+  NgrokError,
+  PlanRequiredError,
+  PortInUseError,
+  classifyNgrokError,
+} from '../../errors';
+
+describe('Ngrok error taxonomy', () => {
+  it('should classify a rejected auth token', () => {
+    const error = classifyNgrokError(
+      'ERROR:  authentication failed: The authtoken you specified is not valid.\nERROR:  ERR_NGROK_105'
+    );
+
+    expect(error).toBeInstanceOf(AuthTokenInvalidError);
+    expect(error.code).toBe('AUTH_TOKEN_INVALID');
+    expect(error.ngrokCode).toBe('ERR_NGROK_105');
+    expect(error.hint).toContain('NGROK_AUTH_TOKEN');
+  });
+
+  it('should classify an endpoint that is already online', () => {
+    const error = classifyNgrokError(
+      'failed to start tunnel: The endpoint is already online. ERR_NGROK_334'
+    );
+
+    expect(error).toBeInstanceOf(DomainInUseError);
+    expect(error.message).toBe('Failed to start tunnel - domain might already be in use');
+    expect(error.ngrokCode).toBe('ERR_NGROK_334');
+  });
+
+  it('should classify plan restrictions depending on whether a domain is set', () => {
+    const withoutDomain = classifyNgrokError('ERR_NGROK_15002');
+    const withDomain = classifyNgrokError('ERR_NGROK_15002', { domain: 'agent.ngrok-free.app' });
+
+    expect(withoutDomain).toBeInstanceOf(PlanRequiredError);
+    expect(withoutDomain.message).toContain('requires NGROK_DOMAIN to be set');
+    expect(withDomain.message).toContain('Ensure your domain is registered');
+    expect(classifyNgrokError('ERR_NGROK_313').code).toBe('PLAN_REQUIRED');
+  });
+
+  it('should prefer an explicit ngrok code over the message', () => {
+    const error = classifyNgrokError('session closed', { ngrokCode: 'ERR_NGROK_334' });
+
+    expect(error).toBeInstanceOf(DomainInUseError);
+  });
+
+  it('should classify address conflicts and fall back to a generic error', () => {
+    expect(
+      classifyNgrokError('listen tcp 127.0.0.1:4040: bind: address already in use')
+    ).toBeInstanceOf(PortInUseError);
+
+    const unknown = classifyNgrokError('something odd happened');
+    expect(unknown).toBeInstanceOf(NgrokError);
+    expect(unknown.code).toBe('UNKNOWN');
+    expect(unknown.message).toBe('Ngrok error: something odd happened');
+  });
+
+  it('should point users without the binary at the SDK backend', () => {
+    const error = new BinaryMissingError();
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('BinaryMissingError');
+    expect(error.message).toContain('ngrok is not installed');
+    expect(error.hint).toContain('NGROK_BACKEND=sdk');
+  });
+});
@@ -0,0 +1,147 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { HEALTH_PROBE_HEADER, probeTunnel } from '../../services/health';
+import { parseUpstream } from '../../services/upstream';
+
+describe('Tunnel health probing', () => {
+  let server: http.Server;
+  let port: number;
+  let responseStatus: number;
+  let received: http.IncomingHttpHeaders[];
+
+  beforeEach(async () => {
+    responseStatus = 200;
+    received = [];
+    // Plays both the local upstream and the public endpoint
+    server = http.createServer((req, res) => {
+      received.push(req.headers);
+      res.writeHead(req.url === '/healthz' ? 204 : responseStatus);
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should report a reachable HTTP tunnel as healthy with its latency', async () => {
+    const result = await probeTunnel({
+      upstream: parseUpstream(port),
+      protocol: 'http',
+      url: `http://127.0.0.1:${port}`,
+    });
+
+    expect(result.healthy).toBe(true);
+    expect(result.error).toBeNull();
+    expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should only request the public URL when public probes are enabled', async () => {
+    const target = {
+      upstream: parseUpstream(port),
+      protocol: 'http' as const,
+      url: `http://127.0.0.1:${port}`,
+    };
+
+    expect((await probeTunnel(target)).publicRequest).toBe(false);
+    expect(received).toHaveLength(1);
+
+    expect((await probeTunnel({ ...target, public: true })).publicRequest).toBe(true);
+    expect(received).toHaveLength(3);
+    // Tagged so captured requests and metrics can leave them out
+    expect(received.every((headers) => headers[HEALTH_PROBE_HEADER] === '1')).toBe(true);
+  });
+
+  it('should report an unreachable local port as unhealthy', async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    server = http.createServer();
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const result = await probeTunnel({
+      upstream: parseUpstream(port),
+      protocol: 'http',
+      url: 'https://unused.ngrok.io',
+    });
+
+    expect(result.healthy).toBe(false);
+    expect(result.error).toContain(`Local port ${port} is unreachable`);
+  });
+
+  it('should name an unreachable upstream on another host', async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    server = http.createServer();
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const result = await probeTunnel({
+      upstream: parseUpstream(`127.0.0.1:${port}`),
+      protocol: 'http',
+      url: 'https://unused.ngrok.io',
+    });
+
+    expect(result.error).toContain(`Upstream 127.0.0.1:${port} is unreachable`);
+  });
+
+  it('should treat a 5xx from the local service as unhealthy', async () => {
+    responseStatus = 502;
+
+    const result = await probeTunnel({
+      upstream: parseUpstream(port),
+      protocol: 'http',
+      url: `http://127.0.0.1:${port}`,
+    });
+
+    expect(result.healthy).toBe(false);
+    expect(result.error).toBe(`Local port ${port} returned HTTP 502`);
+  });
+
+  it('should treat a 5xx from the public URL as unhealthy', async () => {
+    const edge = http.createServer((req, res) => {
+      res.writeHead(502);
+      res.end();
+    });
+    await new Promise<void>((resolve) => edge.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const result = await probeTunnel({
+        upstream: parseUpstream(port),
+        protocol: 'http',
+        url: `http://127.0.0.1:${(edge.address() as AddressInfo).port}`,
+        public: true,
+      });
+
+      expect(result.healthy).toBe(false);
+      expect(result.error).toBe('Public URL returned HTTP 502');
+    } finally {
+      await new Promise<void>((resolve) => edge.close(() => resolve()));
+    }
+  });
+
+  it('should probe the configured health path and expected status', async () => {
+    const target = {
+      upstream: parseUpstream(port),
+      protocol: 'http' as const,
+      url: `http://127.0.0.1:${port}`,
+    };
+
+    expect((await probeTunnel({ ...target, path: '/healthz', expectedStatus: 204 })).healthy).toBe(
+      true
+    );
+    expect((await probeTunnel({ ...target, expectedStatus: 204 })).error).toBe(
+      `Local port ${port} returned HTTP 200, expected 204`
+    );
+  });
+
+  it('should connect to the public address of TCP tunnels', async () => {
+    const result = await probeTunnel({
+      upstream: parseUpstream(port),
+      protocol: 'tcp',
+      url: `tcp://127.0.0.1:${port}`,
+      public: true,
+    });
+
+    expect(result.healthy).toBe(true);
+  });
+});
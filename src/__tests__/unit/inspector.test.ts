@@ -0,0 +1,290 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  fetchCapturedRequest,
+  fetchRecentRequests,
+  fetchTunnelMetrics,
+  MAX_BODY_LENGTH,
+  replayCapturedRequest,
+} from '../../services/inspector';
+import { parseUpstream } from '../../services/upstream';
+import { capturedRequest } from '../mocks/FakeNgrok';
+
+describe('Ngrok inspector requests', () => {
+  let server: http.Server;
+  let inspectorAddr: string;
+  let requests: unknown[];
+
+  beforeEach(async () => {
+    requests = [];
+    server = http.createServer((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ uri: '/api/requests/http', requests }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    inspectorAddr = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should return method, path, status, duration, headers and bodies', async () => {
+    requests = [
+      capturedRequest({
+        id: 'req_1',
+        uri: '/webhook/stripe?attempt=2',
+        status: 500,
+        body: '{"type":"invoice.paid"}',
+        responseBody: 'boom',
+        headers: { 'Stripe-Signature': ['t=1,v1=abc'] },
+        durationMs: 42,
+      }),
+    ];
+
+    const [request] = await fetchRecentRequests(inspectorAddr);
+
+    expect(request).toEqual(
+      expect.objectContaining({
+        id: 'req_1',
+        method: 'POST',
+        path: '/webhook/stripe',
+        uri: '/webhook/stripe?attempt=2',
+        status: 500,
+        durationMs: 42,
+        startedAt: new Date('2024-01-01T00:00:00Z'),
+        requestHeaders: { 'Stripe-Signature': ['t=1,v1=abc'] },
+        requestBody: '{"type":"invoice.paid"}',
+        requestBodyTruncated: false,
+        responseBody: 'boom',
+      })
+    );
+  });
+
+  it('should truncate large bodies', async () => {
+    requests = [capturedRequest({ id: 'req_1', body: 'x'.repeat(MAX_BODY_LENGTH + 10) })];
+
+    const [request] = await fetchRecentRequests(inspectorAddr);
+
+    expect(request.requestBody).toHaveLength(MAX_BODY_LENGTH);
+    expect(request.requestBodyTruncated).toBe(true);
+  });
+
+  it('should filter by status, status class and path prefix and apply the limit', async () => {
+    requests = [
+      capturedRequest({ id: 'req_4', uri: '/webhook/github', status: 502 }),
+      capturedRequest({ id: 'req_3', uri: '/webhook/stripe', status: 500 }),
+      capturedRequest({ id: 'req_2', uri: '/webhook/stripe', status: 200 }),
+      capturedRequest({ id: 'req_1', uri: '/health', status: 200 }),
+    ];
+    const ids = async (filter: Parameters<typeof fetchRecentRequests>[1]) =>
+      (await fetchRecentRequests(inspectorAddr, filter)).map((request) => request.id);
+
+    expect(await ids({ status: 200 })).toEqual(['req_2', 'req_1']);
+    expect(await ids({ status: '5xx' })).toEqual(['req_4', 'req_3']);
+    expect(await ids({ path: '/webhook/stripe' })).toEqual(['req_3', 'req_2']);
+    expect(await ids({ limit: 1 })).toEqual(['req_4']);
+  });
+
+  it('should leave out health probes', async () => {
+    requests = [
+      capturedRequest({ id: 'req_2', uri: '/', headers: { 'X-Elizaos-Health-Probe': ['1'] } }),
+      capturedRequest({ id: 'req_1', uri: '/webhook/stripe' }),
+    ];
+
+    const captured = await fetchRecentRequests(inspectorAddr);
+
+    expect(captured.map((request) => request.id)).toEqual(['req_1']);
+  });
+
+  it('should fail when the inspector is unreachable', async () => {
+    await expect(fetchRecentRequests('127.0.0.1:1')).rejects.toThrow();
+  });
+});
+
+describe('Ngrok request replay', () => {
+  let server: http.Server;
+  let port: number;
+  let received: { method?: string; url?: string; headers: http.IncomingHttpHeaders; body: string };
+
+  beforeEach(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received = { method: req.method, url: req.url, headers: req.headers, body };
+        res.writeHead(201, { 'X-Handler': 'local' });
+        res.end('created');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const captured = {
+    id: 'req_1',
+    method: 'POST',
+    uri: '/webhook/stripe?attempt=2',
+    headers: {
+      'Content-Type': ['application/json'],
+      'Content-Length': ['23'],
+      'Stripe-Signature': ['t=1,v1=abc'],
+    },
+    body: Buffer.from('{"type":"invoice.paid"}'),
+  };
+
+  it('should send the captured request to the local port', async () => {
+    const result = await replayCapturedRequest(parseUpstream(port), captured);
+
+    expect(received).toEqual(
+      expect.objectContaining({
+        method: 'POST',
+        url: '/webhook/stripe?attempt=2',
+        body: '{"type":"invoice.paid"}',
+      })
+    );
+    expect(received.headers['stripe-signature']).toBe('t=1,v1=abc');
+    expect(result).toEqual(
+      expect.objectContaining({
+        requestId: 'req_1',
+        path: '/webhook/stripe',
+        status: 201,
+        responseBody: 'created',
+        responseHeaders: expect.objectContaining({ 'x-handler': ['local'] }),
+        modified: false,
+      })
+    );
+  });
+
+  it('should send the captured request to a Unix socket upstream', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ngrok-replay-test-'));
+    const socketPath = path.join(dir, 'app.sock');
+    const socketServer = http.createServer((req, res) => {
+      res.writeHead(200);
+      res.end(`socket ${req.url}`);
+    });
+    await new Promise<void>((resolve) => socketServer.listen(socketPath, resolve));
+
+    try {
+      const result = await replayCapturedRequest(parseUpstream(`unix://${socketPath}`), captured);
+
+      expect(result.responseBody).toBe('socket /webhook/stripe?attempt=2');
+    } finally {
+      await new Promise<void>((resolve) => socketServer.close(() => resolve()));
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should apply a modified body and headers and recompute the content length', async () => {
+    const result = await replayCapturedRequest(parseUpstream(port), captured, {
+      modifiedBody: { type: 'invoice.failed' },
+      modifiedHeaders: { 'stripe-signature': 't=2,v1=def' },
+    });
+
+    expect(received.body).toBe('{"type":"invoice.failed"}');
+    expect(received.headers['content-length']).toBe('25');
+    expect(received.headers['stripe-signature']).toBe('t=2,v1=def');
+    expect(result.modified).toBe(true);
+  });
+
+  it('should return null for a request the inspector no longer holds', async () => {
+    const inspector = http.createServer((req, res) => {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end('{"status_code":404}');
+    });
+    await new Promise<void>((resolve) => inspector.listen(0, '127.0.0.1', resolve));
+
+    try {
+      const addr = `127.0.0.1:${(inspector.address() as AddressInfo).port}`;
+      expect(await fetchCapturedRequest(addr, 'req_gone')).toBeNull();
+    } finally {
+      await new Promise<void>((resolve) => inspector.close(() => resolve()));
+    }
+  });
+});
+
+describe('Ngrok tunnel metrics', () => {
+  let server: http.Server;
+  let inspectorAddr: string;
+
+  const tunnel = (proto: string, addr: string, metrics: unknown) => ({
+    name: 'command_line',
+    public_url: `${proto}://example.ngrok.app`,
+    proto,
+    config: { addr },
+    metrics,
+  });
+
+  beforeEach(async () => {
+    server = http.createServer((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify({
+          tunnels: [
+            tunnel('https', 'http://localhost:3000', {
+              conns: {
+                count: 12,
+                gauge: 2,
+                rate1: 0.5,
+                rate5: 0.25,
+                rate15: 0.1,
+                p50: 1e9,
+                p90: 3e9,
+              },
+              http: {
+                count: 40,
+                rate1: 2,
+                rate5: 1.5,
+                rate15: 0.5,
+                p50: 12_400_000,
+                p90: 87_600_000,
+              },
+            }),
+            tunnel('tcp', 'localhost:5432', { conns: { count: 3, gauge: 1 }, http: { count: 0 } }),
+          ],
+        })
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    inspectorAddr = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('should report connection totals, request rates and response time percentiles', async () => {
+    const metrics = await fetchTunnelMetrics(inspectorAddr, parseUpstream(3000), 'http');
+
+    expect(metrics).toEqual({
+      connections: { total: 12, open: 2, rate1m: 0.5, rate5m: 0.25, rate15m: 0.1 },
+      requests: { total: 40, rate1m: 2, rate5m: 1.5, rate15m: 0.5, p50Ms: 12, p90Ms: 88 },
+      updatedAt: expect.any(Date),
+    });
+  });
+
+  it('should take health probes off the request total', async () => {
+    const metrics = await fetchTunnelMetrics(inspectorAddr, parseUpstream(3000), 'http', 15);
+
+    expect(metrics?.requests?.total).toBe(25);
+  });
+
+  it('should only report connections for TCP tunnels', async () => {
+    const metrics = await fetchTunnelMetrics(inspectorAddr, parseUpstream(5432), 'tcp');
+
+    expect(metrics?.connections).toEqual({ total: 3, open: 1, rate1m: 0, rate5m: 0, rate15m: 0 });
+    expect(metrics?.requests).toBeNull();
+  });
+
+  it('should return null for a port the inspector does not list', async () => {
+    expect(await fetchTunnelMetrics(inspectorAddr, parseUpstream(8080), 'http')).toBeNull();
+  });
+});
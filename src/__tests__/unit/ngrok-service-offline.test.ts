@@ -0,0 +1,378 @@
+import { elizaLogger, type IAgentRuntime } from '@elizaos/core';
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthTokenInvalidError, BinaryMissingError, DomainInUseError } from '../../errors';
+import { NgrokService } from '../../services/NgrokService';
+import { capturedRequest, FakeNgrok } from '../mocks/FakeNgrok';
+
+const isProcessAlive = (pid: number) => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Runs the real CLI backend against the offline ngrok stand-in
+describe('NgrokService with the CLI backend (offline)', () => {
+  let fake: FakeNgrok;
+  let settings: Record<string, string>;
+  let service: NgrokService;
+
+  beforeEach(async () => {
+    fake = FakeNgrok.install('success');
+    // A domain from a local .env would replace the random fake URLs
+    vi.stubEnv('NGROK_DOMAIN', '');
+    settings = { NGROK_AUTH_TOKEN: 'offline-token' };
+    const runtime = {
+      agentId: 'offline-test',
+      getSetting: vi.fn((key: string) => settings[key]),
+      emitEvent: vi.fn(async () => {}),
+      getCache: vi.fn(async () => undefined),
+      setCache: vi.fn(async () => true),
+    } as unknown as IAgentRuntime;
+
+    service = new NgrokService(runtime);
+    await service.initialize();
+  });
+
+  afterEach(async () => {
+    await service.stop();
+    fake.uninstall();
+    vi.unstubAllEnvs();
+  });
+
+  it('should spawn ngrok with a private config and read the URL from its inspector', async () => {
+    const url = await service.startTunnel(3000);
+
+    const [invocation] = fake.invocations;
+    expect(url).toBe(`https://fake-3000-${invocation.pid}.ngrok.app`);
+    expect(invocation.args.slice(0, 2)).toEqual(['http', '3000']);
+    expect(invocation.args).toContain('--config');
+    expect(invocation.args).toContain('--web-addr');
+    expect(service.getStatus()).toEqual(
+      expect.objectContaining({ state: 'online', active: true, url })
+    );
+
+    await service.stopTunnel();
+    expect(isProcessAlive(invocation.pid)).toBe(false);
+  });
+
+  it('should pass the reserved domain to ngrok', async () => {
+    settings.NGROK_DOMAIN = 'agent.ngrok.app';
+
+    expect(await service.startTunnel(3000)).toBe('https://agent.ngrok.app');
+    expect(fake.invocations[0].args).toEqual(
+      expect.arrayContaining(['--domain', 'agent.ngrok.app'])
+    );
+  });
+
+  // Secrets reach ngrok through the private policy file, never its command line
+  const policyOf = (args: string[]) => {
+    const policyPath = args[args.indexOf('--traffic-policy-file') + 1];
+    expect(fs.statSync(policyPath).mode & 0o777).toBe(0o600);
+    return JSON.parse(fs.readFileSync(policyPath, 'utf8'));
+  };
+
+  it('should pass basic auth credentials to ngrok', async () => {
+    await service.startTunnel(3000, { basicAuth: { username: 'dev', password: 'correct-horse' } });
+
+    const { args } = fake.invocations[0];
+    expect(args.join(' ')).not.toContain('correct-horse');
+    expect(policyOf(args).on_http_request[0].actions).toEqual([
+      { type: 'basic-auth', config: { credentials: ['dev:correct-horse'] } },
+    ]);
+  });
+
+  it('should pass the OAuth provider and allowlists to ngrok', async () => {
+    await service.startTunnel(3000, {
+      identity: {
+        provider: 'google',
+        allowEmails: ['alice@example.com'],
+        allowDomains: ['example.com'],
+      },
+    });
+
+    const { args } = fake.invocations[0];
+    expect(args.join(' ')).toContain(
+      '--oauth google --oauth-allow-email alice@example.com --oauth-allow-domain example.com'
+    );
+  });
+
+  it('should pass the allowed and denied networks to ngrok', async () => {
+    await service.startTunnel(3000, {
+      allowCidrs: ['203.0.113.0/24'],
+      denyCidrs: ['203.0.113.9/32'],
+    });
+
+    expect(fake.invocations[0].args.join(' ')).toContain(
+      '--cidr-allow 203.0.113.0/24 --cidr-deny 203.0.113.9/32'
+    );
+  });
+
+  it('should pass the webhook provider and secret to ngrok', async () => {
+    await service.startTunnel(3000, {
+      verifyWebhook: { provider: 'slack', secret: 'slack-signing-secret' },
+    });
+
+    const { args } = fake.invocations[0];
+    expect(args.join(' ')).not.toContain('slack-signing-secret');
+    expect(policyOf(args).on_http_request[0].actions).toEqual([
+      { type: 'verify-webhook', config: { provider: 'slack', secret: 'slack-signing-secret' } },
+    ]);
+  });
+
+  it('should forward to an upstream on another host', async () => {
+    const url = await service.startTunnel('db:5432', { protocol: 'tcp' });
+
+    expect(fake.invocations[0].args.slice(0, 2)).toEqual(['tcp', 'db:5432']);
+    expect(service.getStatus()).toEqual(
+      expect.objectContaining({ active: true, url, upstream: 'db:5432', port: 5432 })
+    );
+  });
+
+  it('should retry while the domain is still online elsewhere', async () => {
+    fake.script('domain-in-use', 'success');
+
+    const url = await service.startTunnel(3000);
+
+    expect(fake.invocations.map((invocation) => invocation.scenario)).toEqual([
+      'domain-in-use',
+      'success',
+    ]);
+    expect(url).toBe(`https://fake-3000-${fake.invocations[1].pid}.ngrok.app`);
+  });
+
+  it('should give up with a typed error when the domain stays in use', async () => {
+    fake.script('domain-in-use');
+
+    const error = await service.startTunnel(3000).catch((e) => e);
+
+    expect(error).toBeInstanceOf(DomainInUseError);
+    expect(error.ngrokCode).toBe('ERR_NGROK_334');
+    expect(fake.invocations).toHaveLength(3);
+    expect(service.getStatus().state).toBe('idle');
+  });
+
+  it('should not retry a rejected auth token', async () => {
+    fake.script('auth-failed');
+
+    await expect(service.startTunnel(3000)).rejects.toBeInstanceOf(AuthTokenInvalidError);
+    expect(fake.invocations).toHaveLength(1);
+  });
+
+  it('should reconnect after ngrok crashes', async () => {
+    fake.script('crash', 'success');
+
+    const firstUrl = await service.startTunnel(3000);
+
+    await vi.waitFor(() => expect(service.getStatus().reconnectCount).toBe(1), {
+      timeout: 15000,
+      interval: 200,
+    });
+    expect(service.getStatus()).toEqual(
+      expect.objectContaining({
+        state: 'online',
+        lastError: 'Ngrok process exited unexpectedly with code 1',
+      })
+    );
+    expect(service.getUrl()).not.toBe(firstUrl);
+  });
+
+  it('should fail and terminate ngrok when no tunnel is ever published', async () => {
+    fake.script('hang');
+
+    await expect(service.startTunnel(3000)).rejects.toThrow(
+      'Failed to get tunnel URL from ngrok after multiple attempts'
+    );
+
+    const [invocation] = fake.invocations;
+    await vi.waitFor(() => expect(isProcessAlive(invocation.pid)).toBe(false));
+  });
+
+  it('should read the traffic captured by the tunnel inspector', async () => {
+    await service.startTunnel(3000);
+    fake.captureRequests([
+      capturedRequest({
+        id: 'req_2',
+        uri: '/webhook/github',
+        status: 500,
+        body: '{"action":"opened"}',
+      }),
+      capturedRequest({ id: 'req_1', uri: '/webhook/github', status: 200 }),
+    ]);
+
+    const requests = await service.getRecentRequests({ status: '5xx' });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toEqual(
+      expect.objectContaining({
+        id: 'req_2',
+        path: '/webhook/github',
+        requestBody: '{"action":"opened"}',
+      })
+    );
+  });
+
+  it('should report the traffic metrics from the tunnel inspector', async () => {
+    await service.startTunnel(3000);
+    expect(service.getStatus().metrics).toBeNull();
+    fake.reportMetrics({
+      conns: { count: 5, gauge: 1, rate1: 0.2, rate5: 0.1, rate15: 0.05 },
+      http: { count: 9, rate1: 0.3, rate5: 0.2, rate15: 0.1, p50: 15e6, p90: 40e6 },
+    });
+
+    const status = await service.refreshTunnelMetrics();
+
+    expect(status.metrics).toEqual(
+      expect.objectContaining({
+        connections: expect.objectContaining({ total: 5, open: 1 }),
+        requests: expect.objectContaining({ total: 9, p50Ms: 15, p90Ms: 40 }),
+      })
+    );
+    expect(service.getStatus().metrics).toEqual(status.metrics);
+  });
+
+  it('should replay a captured request against the local service', async () => {
+    let receivedBody = '';
+    const local = http.createServer((req, res) => {
+      req.on('data', (chunk) => (receivedBody += chunk));
+      req.on('end', () => res.end('handled'));
+    });
+    await new Promise<void>((resolve) => local.listen(0, '127.0.0.1', resolve));
+
+    try {
+      await service.startTunnel((local.address() as AddressInfo).port);
+      fake.captureRequests([
+        capturedRequest({
+          id: 'req_1',
+          uri: '/webhook/github',
+          status: 500,
+          body: '{"action":"opened"}',
+        }),
+      ]);
+
+      const result = await service.replayRequest('req_1');
+
+      expect(receivedBody).toBe('{"action":"opened"}');
+      expect(result).toEqual(
+        expect.objectContaining({ requestId: 'req_1', status: 200, responseBody: 'handled' })
+      );
+      await expect(service.replayRequest('req_unknown')).rejects.toThrow(
+        'No captured request "req_unknown"'
+      );
+    } finally {
+      await new Promise<void>((resolve) => local.close(() => resolve()));
+    }
+  });
+});
+
+describe('NgrokService started by the runtime (offline)', () => {
+  // Leaves an ngrok stand-in behind with the marker a killed run of the agent would have written
+  const spawnOrphan = async (agentId: string) => {
+    const orphanConfig = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'elizaos-ngrok-orphan-')),
+      'ngrok.yml'
+    );
+    // Only its command line matters
+    const orphan = spawn(process.execPath, [
+      '-e',
+      'setInterval(() => {}, 1000)',
+      'ngrok',
+      '--config',
+      orphanConfig,
+    ]);
+    const exited = new Promise((resolve) => orphan.once('exit', resolve));
+    const killedAgent = spawn(process.execPath, ['-e', '']);
+    await new Promise((resolve) => killedAgent.once('exit', resolve));
+
+    const markerDir = path.join(os.tmpdir(), 'elizaos-ngrok', agentId);
+    const markerPath = path.join(markerDir, `${orphan.pid}.json`);
+    fs.mkdirSync(markerDir, { recursive: true });
+    fs.writeFileSync(
+      markerPath,
+      JSON.stringify({
+        pid: orphan.pid,
+        ownerPid: killedAgent.pid,
+        tunnel: 'default',
+        configPath: orphanConfig,
+        startedAt: new Date().toISOString(),
+      })
+    );
+    return { orphan, exited, markerPath };
+  };
+
+  const createRuntime = (agentId: string) =>
+    ({
+      agentId,
+      getSetting: vi.fn((key: string) =>
+        key === 'NGROK_AUTH_TOKEN' ? 'offline-token' : undefined
+      ),
+      emitEvent: vi.fn(async () => {}),
+      getCache: vi.fn(async () => ({ default: { upstream: 'localhost:3000', options: {} } })),
+      setCache: vi.fn(async () => true),
+    }) as unknown as IAgentRuntime;
+
+  it('should stop ngrok left behind by a killed agent before restoring its tunnels', async () => {
+    const fake = FakeNgrok.install('success');
+    vi.stubEnv('NGROK_DOMAIN', '');
+    const agentId = `offline-orphan-${process.pid}`;
+    const { orphan, exited, markerPath } = await spawnOrphan(agentId);
+    const runtime = createRuntime(agentId);
+
+    try {
+      const service = (await NgrokService.start(runtime)) as NgrokService;
+      await exited;
+
+      expect(orphan.signalCode).toBe('SIGTERM');
+      expect(fs.existsSync(markerPath)).toBe(false);
+      expect(service.getStatus()).toEqual(expect.objectContaining({ active: true, port: 3000 }));
+      expect(fake.invocations).toHaveLength(1);
+    } finally {
+      await NgrokService.stop(runtime);
+      orphan.kill('SIGKILL');
+      fake.uninstall();
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('should start without ngrok installed and fail only when a tunnel is opened', async () => {
+    const warn = vi.spyOn(elizaLogger, 'warn').mockImplementation(() => {});
+    const agentId = `offline-no-binary-${process.pid}`;
+    const { orphan, exited, markerPath } = await spawnOrphan(agentId);
+    const runtime = createRuntime(agentId);
+    // Keeps the tools the backend shells out to, but no ngrok
+    const binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'no-ngrok-'));
+    for (const tool of ['ps', 'which']) {
+      const dir = (process.env.PATH || '')
+        .split(path.delimiter)
+        .find((entry) => fs.existsSync(path.join(entry, tool)));
+      if (dir) fs.symlinkSync(path.join(dir, tool), path.join(binDir, tool));
+    }
+    vi.stubEnv('PATH', binDir);
+
+    try {
+      const service = (await NgrokService.start(runtime)) as NgrokService;
+      await exited;
+
+      expect(orphan.signalCode).toBe('SIGTERM');
+      expect(fs.existsSync(markerPath)).toBe(false);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('Tunnels cannot be opened until ngrok is installed')
+      );
+      expect(service.isActive()).toBe(false);
+      await expect(service.startTunnel(3000)).rejects.toBeInstanceOf(BinaryMissingError);
+    } finally {
+      await NgrokService.stop(runtime);
+      orphan.kill('SIGKILL');
+      vi.unstubAllEnvs();
+      warn.mockRestore();
+    }
+  });
+});
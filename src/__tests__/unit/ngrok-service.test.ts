@@ -0,0 +1,1036 @@
+import { elizaLogger, type IAgentRuntime } from '@elizaos/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthTokenInvalidError, DomainInUseError } from '../../errors';
+import { NgrokService } from '../../services/NgrokService';
+import {
+  SdkTunnelBackend,
+  type TunnelBackend,
+  type TunnelHandle,
+  type TunnelSpec,
+} from '../../services/backends';
+
+type FakeTunnelHandle = TunnelHandle & {
+  // Test helper simulating ngrok dying underneath the service
+  crash: (reason: string) => void;
+};
+
+// In-memory backend so the registry can be exercised without ngrok
+const createFakeBackend = (): TunnelBackend => ({
+  kind: 'cli',
+  initialize: vi.fn(async () => {}),
+  dispose: vi.fn(async () => {}),
+  open: vi.fn(async (spec: TunnelSpec): Promise<FakeTunnelHandle> => {
+    let alive = true;
+    const listeners: Array<(reason: string) => void> = [];
+    return {
+      url: `https://${spec.name}-${spec.upstream.port}.ngrok.io`,
+      inspectorAddr: null,
+      isAlive: () => alive,
+      close: vi.fn(async () => {
+        alive = false;
+      }),
+      onUnexpectedClose: (listener: (reason: string) => void) => {
+        listeners.push(listener);
+      },
+      crash: (reason: string) => {
+        alive = false;
+        listeners.forEach((listener) => listener(reason));
+      },
+    };
+  }),
+});
+
+describe('NgrokService tunnel registry', () => {
+  let runtime: IAgentRuntime;
+  let service: NgrokService;
+  let backend: TunnelBackend;
+
+  beforeEach(() => {
+    runtime = {
+      getSetting: vi.fn(() => undefined),
+      emitEvent: vi.fn(async () => {}),
+      getCache: vi.fn(async () => undefined),
+      setCache: vi.fn(async () => true),
+    } as unknown as IAgentRuntime;
+
+    service = new NgrokService(runtime);
+    backend = createFakeBackend();
+    (service as any).backend = backend;
+
+    // Skip the rate limiter between starts
+    vi.spyOn(Date, 'now').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should keep ITunnelService methods on the default tunnel', async () => {
+    const url = await service.startTunnel(3000);
+
+    expect(url).toBe('https://default-3000.ngrok.io');
+    expect(service.isActive()).toBe(true);
+    expect(service.getUrl()).toBe(url);
+    expect(service.getStatus()).toEqual(
+      expect.objectContaining({ name: 'default', active: true, port: 3000, url })
+    );
+  });
+
+  it('should move through the lifecycle states and emit an event for each transition', async () => {
+    expect(service.getStatus().state).toBe('idle');
+
+    await service.startTunnel(3000);
+    expect(service.getStatus().state).toBe('online');
+
+    await service.stopTunnel();
+    await vi.waitFor(() => expect(runtime.emitEvent).toHaveBeenCalledTimes(4));
+
+    const events = (runtime.emitEvent as any).mock.calls.map(([event, payload]: any[]) => [
+      event,
+      payload.previousState,
+      payload.tunnel.state,
+    ]);
+    expect(events).toEqual([
+      ['TUNNEL_STARTING', 'idle', 'starting'],
+      ['TUNNEL_STARTED', 'starting', 'online'],
+      ['TUNNEL_STOPPING', 'online', 'stopping'],
+      ['TUNNEL_STOPPED', 'stopping', 'stopped'],
+    ]);
+    expect((runtime.emitEvent as any).mock.calls[1][1]).toEqual(
+      expect.objectContaining({
+        source: 'ngrok',
+        tunnel: expect.objectContaining({ name: 'default', url: 'https://default-3000.ngrok.io' }),
+      })
+    );
+  });
+
+  it('should emit TUNNEL_FAILED when a tunnel cannot be started', async () => {
+    (backend.open as any).mockRejectedValue(new AuthTokenInvalidError());
+
+    await expect(service.startTunnel(3000)).rejects.toThrow();
+
+    await vi.waitFor(() =>
+      expect(runtime.emitEvent).toHaveBeenCalledWith(
+        'TUNNEL_FAILED',
+        expect.objectContaining({
+          previousState: 'starting',
+          error: 'The ngrok auth token was rejected',
+        })
+      )
+    );
+    expect(service.getStatus().state).toBe('idle');
+  });
+
+  it('should run several named tunnels at once', async () => {
+    await service.startTunnel(3000, { name: 'api' });
+    await service.startTunnel(4000, { name: 'webhooks' });
+    await service.startTunnel(5173, { name: 'preview' });
+
+    const tunnels = service.listTunnels();
+    expect(tunnels.map((t) => t.name)).toEqual(['api', 'webhooks', 'preview']);
+    expect(tunnels.every((t) => t.active)).toBe(true);
+    expect(service.isActive()).toBe(false);
+    expect(service.getTunnelStatus('webhooks').url).toBe('https://webhooks-4000.ngrok.io');
+    expect(service.getTunnelStatus(5173).name).toBe('preview');
+  });
+
+  it('should return the existing URL when a named tunnel is already running', async () => {
+    const first = await service.startTunnel(3000, { name: 'api' });
+    const second = await service.startTunnel(3000, { name: 'api' });
+
+    expect(second).toBe(first);
+    expect(backend.open).toHaveBeenCalledTimes(1);
+  });
+
+  it('should open TCP tunnels without the reserved domain', async () => {
+    (runtime.getSetting as any).mockImplementation((key: string) =>
+      key === 'NGROK_DOMAIN' ? 'agent.ngrok.app' : undefined
+    );
+
+    await service.startTunnel(5432, { protocol: 'tcp' });
+
+    expect(backend.open).toHaveBeenCalledWith(
+      expect.objectContaining({
+        upstream: expect.objectContaining({ port: 5432 }),
+        protocol: 'tcp',
+      })
+    );
+    expect((backend.open as any).mock.calls[0][0]).not.toHaveProperty('domain');
+    expect(service.getStatus().protocol).toBe('tcp');
+  });
+
+  it('should pass TLS through to the local service when no certificate is configured', async () => {
+    await service.startTunnel(8443, { protocol: 'tls' });
+
+    expect(backend.open).toHaveBeenCalledWith(
+      expect.objectContaining({
+        upstream: expect.objectContaining({ port: 8443 }),
+        protocol: 'tls',
+        tls: undefined,
+      })
+    );
+  });
+
+  it('should terminate TLS at ngrok with a supplied certificate and key', async () => {
+    await service.startTunnel(8443, {
+      protocol: 'tls',
+      tlsCertPath: __filename,
+      tlsKeyPath: __filename,
+    });
+
+    expect(backend.open).toHaveBeenCalledWith(
+      expect.objectContaining({ tls: { certPath: __filename, keyPath: __filename } })
+    );
+  });
+
+  it('should reject a TLS certificate without a key', async () => {
+    await expect(
+      service.startTunnel(8443, { protocol: 'tls', tlsCertPath: __filename })
+    ).rejects.toThrow('requires both a certificate and a key');
+  });
+
+  it('should require basic auth credentials and report only the username', async () => {
+    await service.startTunnel(3000, { basicAuth: { username: 'dev', password: 'correct-horse' } });
+
+    expect(backend.open).toHaveBeenCalledWith(
+      expect.objectContaining({ basicAuth: { username: 'dev', password: 'correct-horse' } })
+    );
+    expect(service.getStatus().basicAuthUsername).toBe('dev');
+    expect(JSON.stringify(service.getStatus())).not.toContain('correct-horse');
+  });
+
+  it('should apply NGROK_BASIC_AUTH to HTTP tunnels only', async () => {
+    (runtime.getSetting as any).mockImplementation((key: string) =>
+      key === 'NGROK_BASIC_AUTH' ? 'team:s3cret:pass' : undefined
+    );
+
+    await service.startTunnel(3000);
+    await service.startTunnel(5432, { name: 'db', protocol: 'tcp' });
+
+    expect(backend.open).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ basicAuth: { username: 'team', password: 's3cret:pass' } })
+    );
+    expect(backend.open).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ basicAuth: undefined })
+    );
+  });
+
+  it('should reject invalid basic auth credentials', async () => {
+    await expect(
+      service.startTunnel(3000, { basicAuth: { username: 'dev', password: 'short' } })
+    ).rejects.toThrow('Password must be at least 8 characters');
+    await expect(
+      service.startTunnel(5432, {
+        protocol: 'tcp',
+        basicAuth: { username: 'dev', password: 'long-enough' },
+      })
+    ).rejects.toThrow('Basic auth can only be used with http tunnels');
+    expect(backend.open).not.toHaveBeenCalled();
+  });
+
+  it('should gate a tunnel behind an identity policy and report it', async () => {
+    const identity = {
+      provider: 'oidc' as const,
+      issuerUrl: 'https://login.example.com',
+      clientId: 'agent',
+      clientSecret: 'oidc-secret',
+      allowDomains: ['example.com'],
+    };
+
+    await service.startTunnel(3000, { identity });
+
+    expect(backend.open).toHaveBeenCalledWith(expect.objectContaining({ identity }));
+    expect(service.getStatus().identityPolicy).toEqual({
+      provider: 'oidc',
+      issuerUrl: 'https://login.example.com',
+      clientId: 'agent',
+      allowDomains: ['example.com'],
+    });
+    expect(JSON.stringify(service.getStatus())).not.toContain('oidc-secret');
+  });
+
+  it('should apply the NGROK_OAUTH settings unless the tunnel sets its own credentials', async () => {
+    const settings: Record<string, string> = {
+      NGROK_OAUTH_PROVIDER: 'github',
+      NGROK_OAUTH_ALLOW_EMAILS: 'alice@example.com',
+    };
+    (runtime.getSetting as any).mockImplementation((key: string) => settings[key]);
+
+    await service.startTunnel(3000);
+    await service.startTunnel(3001, {
+      name: 'shared',
+      basicAuth: { username: 'dev', password: 'correct-horse' },
+    });
+
+    expect(service.getStatus().identityPolicy).toEqual(
+      expect.objectContaining({ provider: 'github', allowEmails: ['alice@example.com'] })
+    );
+    expect(service.getTunnelStatus('shared')).toEqual(
+      expect.objectContaining({ identityPolicy: null, basicAuthUsername: 'dev' })
+    );
+  });
+
+  it('should reject invalid or conflicting identity policies', async () => {
+    await expect(
+      service.startTunnel(3000, { identity: { provider: 'google', allowEmails: ['alice'] } })
+    ).rejects.toThrow('Invalid identity policy: Expected an email address');
+    await expect(service.startTunnel(3000, { identity: { provider: 'oidc' } })).rejects.toThrow(
+      'OIDC requires an issuer URL, client ID and client secret'
+    );
+    await expect(
+      service.startTunnel(3000, {
+        identity: { provider: 'google' },
+        basicAuth: { username: 'dev', password: 'correct-horse' },
+      })
+    ).rejects.toThrow('Basic auth cannot be combined with an identity policy');
+    expect(backend.open).not.toHaveBeenCalled();
+  });
+
+  it('should restrict client networks and report the ranges', async () => {
+    (runtime.getSetting as any).mockImplementation((key: string) =>
+      key === 'NGROK_IP_ALLOW' ? '203.0.113.0/24' : undefined
+    );
+
+    await service.startTunnel(3000);
+    await service.startTunnel(5432, {
+      name: 'db',
+      protocol: 'tcp',
+      allowCidrs: ['198.51.100.0/24'],
+      denyCidrs: ['198.51.100.7/32'],
+    });
+
+    expect(backend.open).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ ipRestriction: { allowCidrs: ['203.0.113.0/24'], denyCidrs: [] } })
+    );
+    expect(service.getTunnelStatus('db').ipRestriction).toEqual({
+      allowCidrs: ['198.51.100.0/24'],
+      denyCidrs: ['198.51.100.7/32'],
+    });
+  });
+
+  it('should reject malformed CIDRs before opening the tunnel', async () => {
+    await expect(
+      service.startTunnel(3000, { allowCidrs: ['203.0.113.0/24', '203.0.113.0/40'] })
+    ).rejects.toThrow('Invalid IP restriction: "203.0.113.0/40": Expected a CIDR');
+    expect(backend.open).not.toHaveBeenCalled();
+  });
+
+  it('should require webhook signatures and report only the provider', async () => {
+    await service.startTunnel(3000, { verifyWebhook: { provider: 'github', secret: 'gh-secret' } });
+
+    expect(backend.open).toHaveBeenCalledWith(
+      expect.objectContaining({ verifyWebhook: { provider: 'github', secret: 'gh-secret' } })
+    );
+    expect(service.getStatus().webhookVerification).toBe('github');
+    expect(JSON.stringify(service.getStatus())).not.toContain('gh-secret');
+  });
+
+  it('should let webhook verification replace the default basic auth credentials', async () => {
+    (runtime.getSetting as any).mockImplementation((key: string) =>
+      key === 'NGROK_BASIC_AUTH' ? 'team:correct-horse' : undefined
+    );
+
+    await service.startTunnel(3000, { verifyWebhook: { provider: 'stripe', secret: 'whsec_123' } });
+
+    expect(backend.open).toHaveBeenCalledWith(expect.objectContaining({ basicAuth: undefined }));
+    expect(service.getStatus()).toEqual(
+      expect.objectContaining({ webhookVerification: 'stripe', basicAuthUsername: null })
+    );
+  });
+
+  it('should reject webhook verification that cannot work', async () => {
+    await expect(
+      service.startTunnel(3000, { verifyWebhook: { provider: 'paypal' as any, secret: 'secret' } })
+    ).rejects.toThrow('Invalid webhook verification');
+    await expect(
+      service.startTunnel(5432, {
+        protocol: 'tcp',
+        verifyWebhook: { provider: 'github', secret: 'secret' },
+      })
+    ).rejects.toThrow('Webhook verification can only be used with http tunnels');
+    await expect(
+      service.startTunnel(3000, {
+        verifyWebhook: { provider: 'github', secret: 'secret' },
+        identity: { provider: 'github' },
+      })
+    ).rejects.toThrow('cannot be combined');
+    expect(backend.open).not.toHaveBeenCalled();
+  });
+
+  it('should pass header rules to the backend', async () => {
+    await service.startTunnel(3000, {
+      requestHeaders: { add: { 'X-Forwarded-Agent': 'eliza' }, remove: ['Cookie'] },
+      hostHeader: 'rewrite',
+    });
+
+    expect(backend.open).toHaveBeenCalledWith(
+      expect.objectContaining({
+        requestHeaders: { add: { 'X-Forwarded-Agent': 'eliza' }, remove: ['Cookie'] },
+        responseHeaders: undefined,
+        hostHeader: 'rewrite',
+      })
+    );
+  });
+
+  it('should fall back to the header settings', async () => {
+    const settings: Record<string, string> = {
+      NGROK_REQUEST_HEADER_ADD: 'X-Forwarded-Agent: eliza, X-Trace: a:b',
+      NGROK_RESPONSE_HEADER_REMOVE: 'Server',
+      NGROK_HOST_HEADER: 'app.internal',
+    };
+    (runtime.getSetting as any).mockImplementation((key: string) => settings[key]);
+
+    await service.startTunnel(3000);
+    // A tunnel's own rules replace the defaults for that direction only
+    await service.startTunnel(4000, { name: 'api', requestHeaders: { remove: ['Cookie'] } });
+
+    expect((backend.open as any).mock.calls[0][0]).toEqual(
+      expect.objectContaining({
+        requestHeaders: {
+          add: { 'X-Forwarded-Agent': 'eliza', 'X-Trace': 'a:b' },
+          remove: undefined,
+        },
+        responseHeaders: { add: undefined, remove: ['Server'] },
+        hostHeader: 'app.internal',
+      })
+    );
+    expect((backend.open as any).mock.calls[1][0]).toEqual(
+      expect.objectContaining({
+        requestHeaders: { remove: ['Cookie'] },
+        responseHeaders: { add: undefined, remove: ['Server'] },
+      })
+    );
+  });
+
+  it('should reject header rules that cannot work', async () => {
+    await expect(
+      service.startTunnel(5432, { protocol: 'tcp', requestHeaders: { remove: ['Cookie'] } })
+    ).rejects.toThrow('Header rules can only be used with http tunnels');
+    await expect(
+      service.startTunnel(3000, { requestHeaders: { add: { 'Bad Header': 'x' } } })
+    ).rejects.toThrow('Invalid request header rules: Expected an HTTP header name');
+    await expect(
+      service.startTunnel(3000, { responseHeaders: { add: { 'X-Test': 'a\r\nSet-Cookie: b' } } })
+    ).rejects.toThrow('Header values cannot contain line breaks');
+    expect(backend.open).not.toHaveBeenCalled();
+  });
+
+  it('should pass the traffic policy to the backend and report its digest', async () => {
+    const trafficPolicy = {
+      on_http_request: [{ actions: [{ type: 'deny', config: { status_code: 403 } }] }],
+    };
+
+    await service.startTunnel(3000, { trafficPolicy });
+
+    expect(backend.open).toHaveBeenCalledWith(expect.objectContaining({ trafficPolicy }));
+    expect(service.getStatus().trafficPolicyDigest).toMatch(/^sha256:[0-9a-f]{64}$/);
+  });
+
+  it('should reject traffic policies that cannot work', async () => {
+    await expect(
+      service.startTunnel(3000, { trafficPolicy: 'on_http_request:\n  - actions: []' })
+    ).rejects.toThrow('Every rule needs at least one action');
+    await expect(
+      service.startTunnel(5432, {
+        protocol: 'tcp',
+        trafficPolicy: { on_http_request: [{ actions: [{ type: 'deny' }] }] },
+      })
+    ).rejects.toThrow('Traffic policy phases on_http_request can only be used with http tunnels');
+    await expect(
+      service.startTunnel(3000, {
+        trafficPolicy: '{}',
+        trafficPolicyFile: '/etc/ngrok/policy.yml',
+      })
+    ).rejects.toThrow('Pass either trafficPolicy or trafficPolicyFile, not both');
+    expect(backend.open).not.toHaveBeenCalled();
+  });
+
+  it('should forward to upstream hosts and Unix sockets', async () => {
+    await service.startTunnel('db:5432', { name: 'db', protocol: 'tcp' });
+    await service.startTunnel('unix:///run/app.sock', { name: 'app' });
+
+    expect(backend.open).toHaveBeenCalledWith(
+      expect.objectContaining({
+        upstream: { address: 'db:5432', host: 'db', port: 5432, scheme: null, socketPath: null },
+      })
+    );
+    expect(service.getTunnelStatus('db')).toEqual(
+      expect.objectContaining({ upstream: 'db:5432', port: 5432 })
+    );
+    expect(service.getTunnelStatus('app')).toEqual(
+      expect.objectContaining({ upstream: 'unix:///run/app.sock', port: null })
+    );
+    expect(service.getTunnelStatus(5432).name).toBe('db');
+  });
+
+  it('should reject upstreams that cannot work', async () => {
+    await expect(service.startTunnel('db')).rejects.toThrow(
+      'Invalid upstream address "db": a port is required'
+    );
+    await expect(
+      service.startTunnel('http://printer.lan:8080', { protocol: 'tcp' })
+    ).rejects.toThrow('http:// upstreams can only be used with http tunnels');
+
+    await service.startTunnel('db:5432', { name: 'db', protocol: 'tcp' });
+    await expect(
+      service.startTunnel('db:5432', { name: 'other', protocol: 'tcp' })
+    ).rejects.toThrow('db:5432 is already exposed by tunnel "db"');
+  });
+
+  it('should reject unsupported protocols', async () => {
+    await expect(service.startTunnel(3000, { protocol: 'udp' as any })).rejects.toThrow(
+      'Unsupported tunnel protocol: udp'
+    );
+  });
+
+  it('should retry while the domain is still held by a previous session', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    (backend.open as any).mockRejectedValueOnce(new DomainInUseError(undefined, 'ERR_NGROK_334'));
+
+    const starting = service.startTunnel(3000);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    await expect(starting).resolves.toBe('https://default-3000.ngrok.io');
+    expect(backend.open).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry other typed failures', async () => {
+    (backend.open as any).mockRejectedValue(new AuthTokenInvalidError());
+
+    await expect(service.startTunnel(3000)).rejects.toBeInstanceOf(AuthTokenInvalidError);
+    expect(backend.open).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only inspect traffic of active HTTP tunnels with an inspector', async () => {
+    await service.startTunnel(5432, { name: 'db', protocol: 'tcp' });
+    await service.startTunnel(3000);
+
+    await expect(service.getRecentRequests({ tunnel: 'db' })).rejects.toThrow(
+      'Traffic inspection is only available for HTTP tunnels, "db" is tcp'
+    );
+    await expect(service.getRecentRequests({ tunnel: 'api' })).rejects.toThrow(
+      'No active tunnel "api"'
+    );
+    // The in-memory backend, like the SDK backend, has no local inspector
+    await expect(service.getRecentRequests()).rejects.toThrow('requires the ngrok CLI backend');
+  });
+
+  it('should refuse to expose the same port under two names', async () => {
+    await service.startTunnel(3000, { name: 'api' });
+
+    await expect(service.startTunnel(3000, { name: 'other' })).rejects.toThrow(
+      'Port 3000 is already exposed by tunnel "api"'
+    );
+  });
+
+  it('should stop a single tunnel by name or port', async () => {
+    await service.startTunnel(3000, { name: 'api' });
+    await service.startTunnel(4000, { name: 'webhooks' });
+
+    await service.stopTunnel('api');
+    expect(service.getTunnelStatus('api').active).toBe(false);
+    expect(service.getTunnelStatus('webhooks').active).toBe(true);
+
+    await service.stopTunnel(4000);
+    expect(service.listTunnels()).toEqual([]);
+  });
+
+  it('should report a tunnel whose backend handle died as inactive', async () => {
+    await service.startTunnel(3000);
+    const handle = await (backend.open as any).mock.results[0].value;
+    await handle.close();
+
+    expect(service.isActive()).toBe(false);
+    expect(service.getStatus()).toEqual(
+      expect.objectContaining({ active: false, url: null, port: null, startedAt: null })
+    );
+  });
+
+  it('should stop every tunnel when the service stops', async () => {
+    await service.startTunnel(3000);
+    await service.startTunnel(4000, { name: 'webhooks' });
+
+    await service.stop();
+
+    expect(service.listTunnels()).toEqual([]);
+    expect(service.isActive()).toBe(false);
+    expect(backend.dispose).toHaveBeenCalled();
+  });
+});
+
+describe('NgrokService reconnect watchdog', () => {
+  let runtime: IAgentRuntime;
+  let service: NgrokService;
+  let backend: TunnelBackend;
+  let settings: Record<string, string>;
+
+  const lastHandle = async (): Promise<FakeTunnelHandle> => {
+    const results = (backend.open as any).mock.results;
+    return results[results.length - 1].value;
+  };
+
+  beforeEach(async () => {
+    settings = {};
+    runtime = {
+      getSetting: vi.fn((key: string) => settings[key]),
+      emitEvent: vi.fn(async () => {}),
+      getCache: vi.fn(async () => undefined),
+      setCache: vi.fn(async () => true),
+    } as unknown as IAgentRuntime;
+
+    service = new NgrokService(runtime);
+    backend = createFakeBackend();
+    (service as any).backend = backend;
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should restart a tunnel whose process died unexpectedly', async () => {
+    await service.startTunnel(3000);
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+
+    (await lastHandle()).crash('Ngrok process exited unexpectedly with code 1');
+    expect(service.isActive()).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(backend.open).toHaveBeenCalledTimes(2);
+    expect(service.isActive()).toBe(true);
+    expect(service.getStatus()).toEqual(
+      expect.objectContaining({
+        reconnectCount: 1,
+        lastError: 'Ngrok process exited unexpectedly with code 1',
+      })
+    );
+  });
+
+  it('should back off between failed reconnects and give up after the configured attempts', async () => {
+    settings.NGROK_RECONNECT_MAX_ATTEMPTS = '2';
+    await service.startTunnel(3000);
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+
+    (backend.open as any).mockRejectedValue(new Error('network unreachable'));
+    (await lastHandle()).crash('Ngrok process exited unexpectedly with code 1');
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(backend.open).toHaveBeenCalledTimes(2);
+
+    // Second attempt waits twice as long
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(backend.open).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(backend.open).toHaveBeenCalledTimes(3);
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(backend.open).toHaveBeenCalledTimes(3);
+    expect(service.getStatus()).toEqual(
+      expect.objectContaining({
+        state: 'failed',
+        active: false,
+        reconnectCount: 0,
+        lastError: 'network unreachable',
+      })
+    );
+  });
+
+  it('should report reconnecting and announce a changed URL', async () => {
+    await service.startTunnel(3000);
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    // ngrok hands out a different random URL after the reconnect
+    const open = (backend.open as any).getMockImplementation();
+    (backend.open as any).mockImplementationOnce((spec: TunnelSpec) =>
+      open({ ...spec, name: 'moved' })
+    );
+
+    (await lastHandle()).crash('Ngrok process exited unexpectedly with code 1');
+    expect(service.getStatus().state).toBe('reconnecting');
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(service.getStatus().state).toBe('online');
+    expect(runtime.emitEvent).toHaveBeenCalledWith(
+      'TUNNEL_URL_CHANGED',
+      expect.objectContaining({
+        previousUrl: 'https://default-3000.ngrok.io',
+        tunnel: expect.objectContaining({ url: 'https://moved-3000.ngrok.io' }),
+      })
+    );
+  });
+
+  it('should not reconnect a tunnel that was stopped on purpose', async () => {
+    await service.startTunnel(3000);
+    const handle = await lastHandle();
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+
+    const stopping = service.stopTunnel();
+    handle.crash('Ngrok process exited unexpectedly with signal SIGTERM');
+    await vi.advanceTimersByTimeAsync(5000);
+    await stopping;
+
+    expect(backend.open).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel a pending reconnect when the tunnel is stopped', async () => {
+    await service.startTunnel(3000);
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+
+    (await lastHandle()).crash('Ngrok process exited unexpectedly with code 1');
+    await service.stopTunnel();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(backend.open).toHaveBeenCalledTimes(1);
+    expect(service.listTunnels()).toEqual([]);
+  });
+});
+
+describe('NgrokService tunnel persistence', () => {
+  let cache: Map<string, unknown>;
+
+  // Services built on the same cache stand in for one agent across restarts
+  const createService = (settings: Record<string, string> = {}) => {
+    const runtime = {
+      getSetting: vi.fn((key: string) => settings[key]),
+      emitEvent: vi.fn(async () => {}),
+      getCache: vi.fn(async (key: string) => cache.get(key)),
+      setCache: vi.fn(async (key: string, value: unknown) => {
+        cache.set(key, structuredClone(value));
+        return true;
+      }),
+    } as unknown as IAgentRuntime;
+    const service = new NgrokService(runtime);
+    const backend = createFakeBackend();
+    (service as any).backend = backend;
+    return { service, backend };
+  };
+
+  beforeEach(() => {
+    cache = new Map();
+    vi.spyOn(Date, 'now').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should persist started tunnels and forget the ones stopped on purpose', async () => {
+    const { service } = createService();
+
+    await service.startTunnel(3000, { name: 'api' });
+    await service.startTunnel(5432, { name: 'db', protocol: 'tcp' });
+    expect(cache.get('ngrok/tunnels')).toEqual({
+      api: { upstream: 'localhost:3000', options: { name: 'api' } },
+      db: { upstream: 'localhost:5432', options: { name: 'db', protocol: 'tcp' } },
+    });
+
+    await service.stopTunnel(3000);
+    expect(Object.keys(cache.get('ngrok/tunnels') as object)).toEqual(['db']);
+  });
+
+  it('should restore the tunnels that were running when the agent stopped', async () => {
+    const first = createService();
+    await first.service.startTunnel(3000);
+    await first.service.startTunnel(5432, { name: 'db', protocol: 'tcp' });
+    await first.service.stop();
+
+    const second = createService();
+    await second.service.start();
+
+    expect(second.backend.open).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'default',
+        upstream: expect.objectContaining({ address: 'localhost:3000' }),
+        protocol: 'http',
+      })
+    );
+    expect(second.backend.open).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'db',
+        upstream: expect.objectContaining({ address: 'localhost:5432' }),
+        protocol: 'tcp',
+      })
+    );
+    expect(second.service.listTunnels().map((tunnel) => tunnel.state)).toEqual([
+      'online',
+      'online',
+    ]);
+    await second.service.stop();
+  });
+
+  it('should keep tunnels that failed to restore for the next boot', async () => {
+    const first = createService();
+    await first.service.startTunnel(3000, { name: 'api' });
+    await first.service.stop();
+
+    const second = createService();
+    (second.backend.open as any).mockRejectedValue(new Error('network unreachable'));
+    await second.service.start();
+
+    expect(second.service.listTunnels()).toEqual([]);
+    expect(cache.get('ngrok/tunnels')).toEqual({
+      api: { upstream: 'localhost:3000', options: { name: 'api' } },
+    });
+    await second.service.stop();
+  });
+
+  it('should never persist tunnel secrets', async () => {
+    const { service } = createService();
+
+    await service.startTunnel(3000, {
+      name: 'admin',
+      basicAuth: { username: 'admin', password: 'per-call-password' },
+    });
+    await service.startTunnel(4000, {
+      name: 'app',
+      identity: {
+        provider: 'oidc',
+        issuerUrl: 'https://id.example.com',
+        clientId: 'app',
+        clientSecret: 'oidc-client-secret',
+      },
+    });
+    await service.startTunnel(4242, {
+      name: 'hooks',
+      verifyWebhook: { provider: 'github', secret: 'whsec_per_call' },
+    });
+
+    const saved = cache.get('ngrok/tunnels') as Record<string, any>;
+    expect(JSON.stringify(saved)).not.toMatch(
+      /per-call-password|oidc-client-secret|whsec_per_call/
+    );
+    expect(saved.admin.omittedSecrets).toEqual({ basicAuth: true });
+    expect(saved.app.options.identity).toEqual({
+      provider: 'oidc',
+      issuerUrl: 'https://id.example.com',
+      clientId: 'app',
+    });
+    expect(saved.hooks.omittedSecrets).toEqual({ webhookProvider: 'github' });
+  });
+
+  it('should read secrets back from settings and skip tunnels whose secrets were per call', async () => {
+    const warn = vi.spyOn(elizaLogger, 'warn').mockImplementation(() => {});
+    const first = createService();
+    await first.service.startTunnel(3000, {
+      name: 'admin',
+      basicAuth: { username: 'admin', password: 'per-call-password' },
+    });
+    await first.service.startTunnel(4242, {
+      name: 'hooks',
+      verifyWebhook: { provider: 'github', secret: 'whsec_per_call' },
+    });
+    await first.service.stop();
+
+    const second = createService({
+      NGROK_VERIFY_WEBHOOK_PROVIDER: 'github',
+      NGROK_VERIFY_WEBHOOK_SECRET: 'whsec_from_settings',
+    });
+    await second.service.start();
+
+    expect(second.backend.open).toHaveBeenCalledTimes(1);
+    expect(second.backend.open).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'hooks',
+        verifyWebhook: { provider: 'github', secret: 'whsec_from_settings' },
+      })
+    );
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        '"admin" (localhost:3000): its basic auth credentials were passed per call'
+      )
+    );
+    expect(Object.keys(cache.get('ngrok/tunnels') as object)).toEqual(['hooks']);
+    await second.service.stop();
+  });
+
+  it('should restore tunnels saved with only a port', async () => {
+    cache.set('ngrok/tunnels', { api: { port: 3000, options: { name: 'api' } } });
+    const { service, backend } = createService();
+
+    await service.start();
+
+    expect(backend.open).toHaveBeenCalledWith(
+      expect.objectContaining({ upstream: expect.objectContaining({ address: 'localhost:3000' }) })
+    );
+    await service.stop();
+  });
+});
+
+describe('NgrokService shutdown handlers', () => {
+  let service: NgrokService;
+  let backend: TunnelBackend;
+  const events = ['SIGINT', 'SIGTERM', 'beforeExit', 'uncaughtException'];
+
+  const listenerCounts = () => events.map((event) => process.listenerCount(event));
+
+  beforeEach(() => {
+    const runtime = {
+      getSetting: vi.fn(() => undefined),
+      emitEvent: vi.fn(async () => {}),
+      getCache: vi.fn(async () => undefined),
+      setCache: vi.fn(async () => true),
+    } as unknown as IAgentRuntime;
+    service = new NgrokService(runtime);
+    backend = createFakeBackend();
+    (service as any).backend = backend;
+    vi.spyOn(Date, 'now').mockReturnValue(0);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    (service as any).unregisterShutdownHandlers();
+    vi.restoreAllMocks();
+  });
+
+  it('should register the handlers once and remove them on stop', async () => {
+    const before = listenerCounts();
+
+    await service.start();
+    await service.start();
+    expect(listenerCounts()).toEqual(before.map((count) => count + 1));
+
+    await service.stop();
+    expect(listenerCounts()).toEqual(before);
+  });
+
+  it('should stop every tunnel on shutdown', async () => {
+    const before = listenerCounts();
+    await service.start();
+    await service.startTunnel(3000);
+    await service.startTunnel(4000, { name: 'webhooks' });
+
+    await (service as any).shutdown('SIGTERM');
+
+    expect(service.listTunnels()).toEqual([]);
+    expect(backend.dispose).toHaveBeenCalled();
+    expect(listenerCounts()).toEqual(before);
+  });
+
+  it('should report tunnels that do not stop within the cleanup timeout', async () => {
+    const error = vi.spyOn(elizaLogger, 'error').mockImplementation(() => {});
+    await service.startTunnel(3000);
+    const handle = await (backend.open as any).mock.results[0].value;
+    handle.close.mockReturnValue(new Promise(() => {}));
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+
+    const shutdown = (service as any).shutdown('SIGINT');
+    await vi.advanceTimersByTimeAsync(5000);
+    await shutdown;
+
+    expect(error).toHaveBeenCalledWith(
+      'Failed to stop ngrok tunnels on SIGINT: Timed out after 5000ms (still running: default)'
+    );
+  });
+
+  it('should report tunnels that fail to stop', async () => {
+    const error = vi.spyOn(elizaLogger, 'error').mockImplementation(() => {});
+    await service.startTunnel(3000);
+    await service.startTunnel(4000, { name: 'webhooks' });
+    const handle = await (backend.open as any).mock.results[0].value;
+    handle.close.mockRejectedValue(new Error('kill EPERM'));
+
+    await (service as any).shutdown('SIGTERM');
+
+    expect(service.getTunnelStatus('webhooks').active).toBe(false);
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Failed to stop ngrok tunnels on SIGTERM: Failed to stop ngrok tunnels "default": kill EPERM'
+      )
+    );
+  });
+});
+
+describe('NgrokService static lifecycle', () => {
+  let runtime: IAgentRuntime;
+  let registered: NgrokService | null;
+
+  beforeEach(() => {
+    registered = null;
+    runtime = {
+      getSetting: vi.fn(() => undefined),
+      getService: vi.fn(() => registered),
+      emitEvent: vi.fn(async () => {}),
+      getCache: vi.fn(async () => undefined),
+      setCache: vi.fn(async () => true),
+    } as unknown as IAgentRuntime;
+    vi.spyOn(Date, 'now').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should stop the tunnels of the instance started for the runtime', async () => {
+    const service = (await NgrokService.start(runtime)) as NgrokService;
+    const backend = createFakeBackend();
+    (service as any).backend = backend;
+    await service.startTunnel(3000);
+
+    await NgrokService.stop(runtime);
+
+    expect(service.isActive()).toBe(false);
+    expect(backend.dispose).toHaveBeenCalled();
+  });
+
+  it('should return the running instance instead of starting a second one', async () => {
+    const first = await NgrokService.start(runtime);
+
+    expect(await NgrokService.start(runtime)).toBe(first);
+
+    await NgrokService.stop(runtime);
+    expect(await NgrokService.start(runtime)).not.toBe(first);
+    await NgrokService.stop(runtime);
+  });
+
+  it('should stop an instance registered with the runtime', async () => {
+    registered = new NgrokService(runtime);
+    const backend = createFakeBackend();
+    (registered as any).backend = backend;
+    await registered.startTunnel(3000);
+
+    await NgrokService.stop(runtime);
+
+    expect(registered.isActive()).toBe(false);
+    expect(runtime.getService).toHaveBeenCalledWith('tunnel');
+  });
+
+  it('should apply the config passed to start', async () => {
+    const service = (await NgrokService.start(runtime, {
+      authToken: 'config-token',
+      region: 'eu',
+      subdomain: 'my-agent',
+    })) as NgrokService;
+    expect((service as any).backend.options.authToken).toBe('config-token');
+    const backend = createFakeBackend();
+    (service as any).backend = backend;
+
+    await service.startTunnel(3000);
+
+    expect(backend.open).toHaveBeenCalledWith(
+      expect.objectContaining({ region: 'eu', subdomain: 'my-agent' })
+    );
+    await NgrokService.stop(runtime);
+  });
+});
+
+describe('NgrokService backend selection', () => {
+  const createRuntime = (settings: Record<string, string>) =>
+    ({
+      getSetting: vi.fn((key: string) => settings[key]),
+    }) as unknown as IAgentRuntime;
+
+  it('should use the CLI backend by default', () => {
+    const service = new NgrokService(createRuntime({}));
+    expect((service as any).backend.kind).toBe('cli');
+  });
+
+  it('should use the SDK backend when NGROK_BACKEND=sdk', () => {
+    const service = new NgrokService(createRuntime({ NGROK_BACKEND: 'sdk' }));
+    expect((service as any).backend).toBeInstanceOf(SdkTunnelBackend);
+  });
+});
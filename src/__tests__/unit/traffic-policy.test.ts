@@ -0,0 +1,76 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadTrafficPolicy } from '../../services/traffic-policy';
+
+const yamlPolicy = `
+on_http_request:
+  - name: block bots
+    expressions:
+      - "req.user_agent.is_bot"
+    actions:
+      - type: deny
+        config:
+          status_code: 403
+`;
+
+const jsonPolicy = JSON.stringify({
+  on_http_request: [
+    {
+      name: 'block bots',
+      expressions: ['req.user_agent.is_bot'],
+      actions: [{ type: 'deny', config: { status_code: 403 } }],
+    },
+  ],
+});
+
+describe('Traffic policy loading', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ngrok-policy-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should give equivalent YAML and JSON documents the same digest', () => {
+    const fromYaml = loadTrafficPolicy({ document: yamlPolicy });
+    const fromJson = loadTrafficPolicy({ document: jsonPolicy });
+
+    expect(fromYaml.policy.on_http_request?.[0].actions).toEqual([
+      { type: 'deny', config: { status_code: 403 } },
+    ]);
+    expect(fromYaml.digest).toMatch(/^sha256:[0-9a-f]{64}$/);
+    expect(fromJson.digest).toBe(fromYaml.digest);
+  });
+
+  it('should read policies from a file and objects', () => {
+    const file = path.join(dir, 'policy.yml');
+    fs.writeFileSync(file, yamlPolicy);
+
+    const fromFile = loadTrafficPolicy({ file });
+
+    expect(fromFile.digest).toBe(loadTrafficPolicy({ document: JSON.parse(jsonPolicy) }).digest);
+    fs.writeFileSync(file, yamlPolicy.replace('403', '451'));
+    expect(loadTrafficPolicy({ file }).digest).not.toBe(fromFile.digest);
+  });
+
+  it('should reject documents that ngrok would not accept', () => {
+    expect(() => loadTrafficPolicy({ document: 'on_http_request: [' })).toThrow(
+      'Could not parse inline traffic policy as YAML or JSON'
+    );
+    expect(() => loadTrafficPolicy({ document: { on_http_requests: [] } as any })).toThrow(
+      "Invalid traffic policy: Unrecognized key(s) in object: 'on_http_requests'"
+    );
+    expect(() =>
+      loadTrafficPolicy({ document: { on_http_request: [{ name: 'empty', actions: [] }] } })
+    ).toThrow('on_http_request.0.actions: Every rule needs at least one action');
+    expect(() => loadTrafficPolicy({ document: '{}' })).toThrow('it has no rules');
+    expect(() => loadTrafficPolicy({ file: path.join(dir, 'missing.yml') })).toThrow(
+      'Traffic policy file not found'
+    );
+  });
+});
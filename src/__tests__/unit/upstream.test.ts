@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ngrokUpstreamAddr, parseUpstream, upstreamTarget } from '../../services/upstream';
+
+describe('Upstream addresses', () => {
+  it('should treat a bare port as a service on this machine', () => {
+    for (const input of [3000, '3000', 'localhost:3000']) {
+      const upstream = parseUpstream(input);
+
+      expect(upstream).toEqual({
+        address: 'localhost:3000',
+        host: 'localhost',
+        port: 3000,
+        scheme: null,
+        socketPath: null,
+      });
+      expect(ngrokUpstreamAddr(upstream)).toBe('3000');
+      expect(upstreamTarget(upstream)).toEqual({ host: '127.0.0.1', port: 3000 });
+    }
+  });
+
+  it('should parse hosts, URLs and Unix sockets', () => {
+    expect(parseUpstream('db:5432')).toEqual(
+      expect.objectContaining({ address: 'db:5432', host: 'db', port: 5432, scheme: null })
+    );
+    expect(parseUpstream('http://printer.lan:8080')).toEqual(
+      expect.objectContaining({
+        address: 'http://printer.lan:8080',
+        host: 'printer.lan',
+        scheme: 'http',
+      })
+    );
+    // Schemes imply their default port
+    expect(parseUpstream('https://nas.lan').address).toBe('https://nas.lan:443');
+    expect(parseUpstream('[::1]:5432')).toEqual(
+      expect.objectContaining({ address: '[::1]:5432', host: '::1', port: 5432 })
+    );
+
+    for (const input of ['unix:///run/app.sock', 'unix:/run/app.sock']) {
+      const upstream = parseUpstream(input);
+      expect(upstream).toEqual({
+        address: 'unix:///run/app.sock',
+        host: null,
+        port: null,
+        scheme: null,
+        socketPath: '/run/app.sock',
+      });
+      expect(ngrokUpstreamAddr(upstream)).toBe('unix:/run/app.sock');
+      expect(upstreamTarget(upstream)).toEqual({ socketPath: '/run/app.sock' });
+    }
+  });
+
+  it('should reject addresses ngrok cannot forward to', () => {
+    expect(() => parseUpstream(70000)).toThrow('Invalid port number');
+    expect(() => parseUpstream('db:0')).toThrow('Invalid port number');
+    expect(() => parseUpstream('db')).toThrow('a port is required');
+    expect(() => parseUpstream('ftp://files.lan:21')).toThrow('unsupported scheme ftp://');
+    expect(() => parseUpstream('http://app.lan:8080/api')).toThrow(
+      'paths, queries and credentials'
+    );
+    expect(() => parseUpstream('unix://run/app.sock')).toThrow(
+      'Unix sockets need an absolute path'
+    );
+  });
+});
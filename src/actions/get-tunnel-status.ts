@@ -7,6 +7,46 @@ import {
   type Memory,
   type State,
 } from '@elizaos/core';
+import type { NgrokService } from '../services/NgrokService';
+import type { NgrokTunnelMetrics, NgrokTunnelStatus } from '../types';
+
+function formatRate(perSecond: number): string {
+  return perSecond >= 1 ? `${perSecond.toFixed(1)}/s` : `${(perSecond * 60).toFixed(1)}/min`;
+}
+
+function formatMetrics(metrics: NgrokTunnelMetrics): string {
+  const { connections, requests } = metrics;
+  let text = `\n🔗 Connections: ${connections.total} total, ${connections.open} open, ${formatRate(connections.rate1m)}`;
+  if (requests) {
+    text += `\n📈 Requests: ${requests.total} total, ${formatRate(requests.rate1m)} (5m: ${formatRate(requests.rate5m)})`;
+    text += `\n⏲️ Response time: p50 ${requests.p50Ms}ms, p90 ${requests.p90Ms}ms`;
+  }
+  return text;
+}
+
+function formatAccess(status: NgrokTunnelStatus): string {
+  let text = '';
+  const policy = status.identityPolicy;
+  if (policy) {
+    const allowed = [...(policy.allowEmails || []), ...(policy.allowDomains || [])];
+    const provider = policy.provider === 'oidc' ? `OIDC (${policy.issuerUrl})` : policy.provider;
+    text += `\n🔐 Access: ${provider} sign-in${allowed.length > 0 ? `, allowed: ${allowed.join(', ')}` : ''}`;
+  } else if (status.basicAuthUsername) {
+    text += `\n🔐 Access: basic auth (username: ${status.basicAuthUsername})`;
+  }
+  if (status.webhookVerification) {
+    text += `\n✍️ Webhook signatures: ${status.webhookVerification}`;
+  }
+
+  const { allowCidrs = [], denyCidrs = [] } = status.ipRestriction || {};
+  if (allowCidrs.length > 0) text += `\n🛡️ Allowed networks: ${allowCidrs.join(', ')}`;
+  if (denyCidrs.length > 0) text += `\n🚫 Blocked networks: ${denyCidrs.join(', ')}`;
+  if (status.trafficPolicyDigest) {
+    // "sha256:" and the first 12 hex digits, enough to tell policy versions apart
+    text += `\n📜 Traffic policy: ${status.trafficPolicyDigest.slice(0, 19)}`;
+  }
+  return text;
+}
 
 export const getTunnelStatusAction: Action = {
   name: 'GET_TUNNEL_STATUS',
@@ -27,7 +67,11 @@ export const getTunnelStatusAction: Action = {
       elizaLogger.info('Getting ngrok tunnel status...');
 
       const tunnelService = runtime.getService('tunnel') as ITunnelService;
-      const status = tunnelService.getStatus();
+      // Tunnel services other than ngrok have no metrics to refresh
+      const refreshMetrics = (tunnelService as Partial<NgrokService>).refreshTunnelMetrics;
+      const status = (
+        refreshMetrics ? await refreshMetrics.call(tunnelService) : tunnelService.getStatus()
+      ) as NgrokTunnelStatus;
 
       let responseText: string;
       const response = {
@@ -50,7 +94,26 @@ export const getTunnelStatusAction: Action = {
           }
         }
 
-        responseText = `✅ Ngrok tunnel is active!\n\n🌐 Public URL: ${status.url}\n🔌 Local Port: ${status.port}\n⏱️ Uptime: ${response.uptime}\n🏢 Provider: ${status.provider}\n\nYour local service is accessible from the internet.`;
+        const addressLabel =
+          status.protocol && status.protocol !== 'http' ? 'Public Address' : 'Public URL';
+        // Tunnels forwarding elsewhere than a local port name their upstream
+        const target =
+          status.upstream && status.upstream !== `localhost:${status.port}`
+            ? `Upstream: ${status.upstream}`
+            : `Local Port: ${status.port}`;
+        const details = `🌐 ${addressLabel}: ${status.url}\n🔌 ${target}\n⏱️ Uptime: ${response.uptime}\n🏢 Provider: ${status.provider}${formatAccess(status)}`;
+
+        if (status.healthy === false) {
+          // The tunnel is up, but traffic does not reach the local service
+          responseText = `⚠️ Ngrok tunnel is running but unhealthy.\n\n${details}\n🩺 Problem: ${status.healthError}\n\nCheck that your local service is running and responding.`;
+        } else {
+          const latency =
+            status.lastLatencyMs !== null && status.lastLatencyMs !== undefined
+              ? `\n📶 Latency: ${status.lastLatencyMs}ms`
+              : '';
+          const metrics = status.metrics ? formatMetrics(status.metrics) : '';
+          responseText = `✅ Ngrok tunnel is active!\n\n${details}${latency}${metrics}\n\nYour local service is accessible from the internet.`;
+        }
       } else {
         responseText = `❌ No active ngrok tunnel.\n\nTo start a tunnel, say "start ngrok tunnel on port [PORT]"`;
       }
@@ -60,7 +123,8 @@ export const getTunnelStatusAction: Action = {
           text: responseText,
           metadata: {
             ...response,
-            action: 'tunnel_status',
+            action:
+              status.active && status.healthy === false ? 'tunnel_unhealthy' : 'tunnel_status',
           },
         });
       }
@@ -0,0 +1,215 @@
+import {
+  ModelType,
+  elizaLogger,
+  type Action,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+} from '@elizaos/core';
+import type { NgrokService } from '../services/NgrokService';
+import type { NgrokCapturedRequest } from '../types';
+
+const replayRequestTemplate = `
+Respond with a JSON object describing which captured ngrok request the user wants to replay.
+The user said: "{{userMessage}}"
+
+Set "requestId" when the user names a request id such as "req_2Xk9", otherwise null.
+Set "method" to the HTTP method they mention, such as "POST", otherwise null.
+Set "path" to the request path they mention, such as "/webhook/stripe", otherwise null.
+Set "failed" to true when they ask for a failed or erroring request, otherwise false.
+
+Response format:
+\`\`\`json
+{
+  "requestId": null,
+  "method": "POST",
+  "path": null,
+  "failed": true
+}
+\`\`\`
+`;
+
+interface ReplaySelector {
+  requestId: string | null;
+  method: string | null;
+  path: string | null;
+  failed: boolean;
+}
+
+function parseSelector(response: string, userMessage: string): ReplaySelector {
+  try {
+    const parsed = JSON.parse(response);
+    return {
+      requestId: typeof parsed.requestId === 'string' ? parsed.requestId : null,
+      method: typeof parsed.method === 'string' ? parsed.method.toUpperCase() : null,
+      path: typeof parsed.path === 'string' && parsed.path.startsWith('/') ? parsed.path : null,
+      failed: parsed.failed === true,
+    };
+  } catch (e) {
+    elizaLogger.warn('Failed to parse replay selector from response, reading the message instead');
+    return {
+      requestId: userMessage.match(/\b(req_[A-Za-z0-9]+)\b/)?.[1] || null,
+      method: userMessage.match(/\b(GET|POST|PUT|PATCH|DELETE)\b/i)?.[1].toUpperCase() || null,
+      path: userMessage.match(/(?:^|\s)(\/[\w\-./]*)/)?.[1] || null,
+      failed: /\b(fail(ed|ing)?|error(ed)?|broken)\b/i.test(userMessage),
+    };
+  }
+}
+
+// Newest captured request matching the selector
+function findCapturedRequest(
+  requests: NgrokCapturedRequest[],
+  selector: ReplaySelector
+): NgrokCapturedRequest | undefined {
+  return requests.find(
+    (request) =>
+      (!selector.method || request.method === selector.method) &&
+      (!selector.failed || request.status === null || request.status >= 400)
+  );
+}
+
+function describeSelector(selector: ReplaySelector): string {
+  return [
+    selector.failed ? 'failed' : null,
+    selector.method,
+    'request',
+    selector.path ? `to ${selector.path}` : null,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+export const replayRequestAction: Action = {
+  name: 'REPLAY_REQUEST',
+  similes: ['REPLAY_WEBHOOK', 'RESEND_REQUEST', 'NGROK_REPLAY'],
+  description:
+    'Replay a request captured by the ngrok tunnel, such as a failed webhook, against the local service',
+  validate: async (runtime: IAgentRuntime, message: Memory) => {
+    const tunnelService = runtime.getService('tunnel') as NgrokService;
+    return !!tunnelService && tunnelService.isActive();
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State,
+    options?: any,
+    callback?: HandlerCallback
+  ): Promise<boolean> => {
+    const tunnelService = runtime.getService('tunnel') as NgrokService;
+    if (!tunnelService || !tunnelService.isActive()) {
+      elizaLogger.warn('No active tunnel to replay requests from');
+      if (callback) {
+        await callback({
+          text: 'No tunnel is currently running, so there are no captured requests to replay.',
+          metadata: {
+            action: 'tunnel_not_active',
+          },
+        });
+      }
+      return false;
+    }
+
+    try {
+      const userMessage = message.content.text || '';
+      const selectorResponse = await runtime.useModel(ModelType.TEXT_SMALL, {
+        prompt: replayRequestTemplate,
+        context: { userMessage },
+        temperature: 0.1,
+      });
+      const selector = parseSelector(selectorResponse, userMessage);
+
+      let requestId = selector.requestId;
+      if (!requestId) {
+        const requests = await tunnelService.getRecentRequests({
+          path: selector.path || undefined,
+          limit: 100,
+        });
+        requestId = findCapturedRequest(requests, selector)?.id || null;
+      }
+
+      if (!requestId) {
+        if (callback) {
+          await callback({
+            text: `🔍 No captured ${describeSelector(selector)} found on the tunnel. Requests are only kept while the tunnel is running.`,
+            metadata: {
+              action: 'replay_not_found',
+            },
+          });
+        }
+        return false;
+      }
+
+      const result = await tunnelService.replayRequest(requestId);
+
+      const body = result.responseBody
+        ? `\n📄 Response body:\n${result.responseBody.slice(0, 500)}${
+            result.responseBodyTruncated || result.responseBody.length > 500 ? '…' : ''
+          }`
+        : '';
+      const responseText = `🔁 Replayed ${result.method} ${result.path} (${result.requestId})\n\n📬 Local response: HTTP ${result.status} in ${result.durationMs}ms${body}`;
+
+      if (callback) {
+        await callback({
+          text: responseText,
+          metadata: {
+            requestId: result.requestId,
+            status: result.status,
+            durationMs: result.durationMs,
+            action: 'request_replayed',
+          },
+        });
+      }
+
+      return true;
+    } catch (error: any) {
+      elizaLogger.error('Failed to replay request:', error);
+
+      if (callback) {
+        await callback({
+          text: `❌ Failed to replay request: ${error.message}`,
+          metadata: {
+            error: error.message,
+            action: 'replay_failed',
+          },
+        });
+      }
+
+      return false;
+    }
+  },
+  examples: [
+    [
+      {
+        name: 'user',
+        content: {
+          text: 'Replay the last failed POST',
+        },
+      },
+      {
+        name: 'assistant',
+        content: {
+          text: '🔁 Replayed POST /webhook/stripe (req_2Xk9)\n\n📬 Local response: HTTP 200 in 35ms',
+          action: 'REPLAY_REQUEST',
+        },
+      },
+    ],
+    [
+      {
+        name: 'user',
+        content: {
+          text: 'I fixed the handler, resend the GitHub webhook to /webhook/github',
+        },
+      },
+      {
+        name: 'assistant',
+        content: {
+          text: '🔁 Replayed POST /webhook/github (req_8Qm1)\n\n📬 Local response: HTTP 204 in 12ms',
+          action: 'REPLAY_REQUEST',
+        },
+      },
+    ],
+  ],
+};
+
+export default replayRequestAction;
@@ -1,6 +1,8 @@
 import {
+  ChannelType,
   ModelType,
   elizaLogger,
+  parseJSONObjectFromText,
   type Action,
   type HandlerCallback,
   type IAgentRuntime,
@@ -8,21 +10,137 @@ import {
   type Memory,
   type State
 } from '@elizaos/core';
+import { randomBytes } from 'crypto';
+import { NgrokError } from '../errors';
+import type { NgrokService } from '../services/NgrokService';
+import {
+  NGROK_TUNNEL_PROTOCOLS,
+  type NgrokBasicAuth,
+  type NgrokTunnelProtocol,
+  type NgrokWebhookVerification,
+} from '../types';
 
 const startTunnelTemplate = `
-Respond with a JSON object containing the port number to start the ngrok tunnel on.
+Respond with a JSON object containing the port number and protocol to start the ngrok tunnel with.
 The user said: "{{userMessage}}"
 
 Extract the port number from their message, or use the default port 3000 if not specified.
+When the service runs somewhere other than this machine's localhost, such as another container, a LAN
+device or a Unix domain socket, set "upstream" to its address as "host:port", "http://host:port" or
+"unix:///path", otherwise set it to null.
+Use protocol "tcp" for raw TCP services such as databases, SSH or game servers, "tls" for services
+that terminate TLS themselves such as a gRPC server with its own certificate, otherwise use "http".
+Set "basicAuth" to true when they ask to protect the tunnel with a password or credentials, otherwise false.
 
 Response format:
 \`\`\`json
 {
-  "port": 3000
+  "port": 3000,
+  "upstream": null,
+  "protocol": "http",
+  "basicAuth": false
 }
 \`\`\`
 `;
 
+interface TunnelRequest {
+  port: number;
+  upstream: string | undefined;
+  protocol: NgrokTunnelProtocol;
+  protect: boolean;
+}
+
+// Addresses the user may name for a service that is not on a local port
+const UPSTREAM_ADDRESS_PATTERN =
+  /(unix:\/\/\S+|https?:\/\/[\w.-]+(?::\d{1,5})?|\b[a-z][\w.-]*:\d{1,5}\b)/i;
+const UPSTREAM_HINT_PATTERN = /\b(container|host(name)?|socket|upstream|remote|lan|vm)\b/i;
+
+function parsePort(value: unknown): number | undefined {
+  // Handle both number and string port values
+  const portNum = typeof value === 'string' ? parseInt(value, 10) : value;
+  if (typeof portNum === 'number' && !isNaN(portNum) && portNum > 0 && portNum <= 65535) {
+    return portNum;
+  }
+  return undefined;
+}
+
+/**
+ * Reads the tunnel the user asked for from the model response. When the
+ * response is not JSON, only the user's own message is read, never the
+ * model's text, which may echo the response format back.
+ */
+function parseTunnelRequest(response: string, userMessage: string): TunnelRequest {
+  // Strips ```json fences; bare JSON literals such as true or null come back as strings
+  const parsed = parseJSONObjectFromText(response);
+  if (parsed) {
+    const upstream = typeof parsed.upstream === 'string' ? parsed.upstream.trim() : '';
+    return {
+      port: parsePort(parsed.port) ?? 3000,
+      upstream: upstream && upstream !== 'null' ? upstream : undefined,
+      protocol: NGROK_TUNNEL_PROTOCOLS.includes(parsed.protocol as NgrokTunnelProtocol)
+        ? (parsed.protocol as NgrokTunnelProtocol)
+        : 'http',
+      protect: parsed.basicAuth === true || parsed.basicAuth === 'true',
+    };
+  }
+
+  elizaLogger.warn('Failed to parse tunnel request from response, reading the message instead');
+  const upstream = userMessage.match(UPSTREAM_ADDRESS_PATTERN)?.[1];
+  if (!upstream && UPSTREAM_HINT_PATTERN.test(userMessage)) {
+    // Guessing a local port here would publish a different service than the one asked for
+    throw new Error(
+      'Could not tell which address to forward the tunnel to. Name it as host:port, http://host:port or unix:///path.'
+    );
+  }
+  const protocolMatch = userMessage.match(/\b(tcp|tls)\b/i);
+  return {
+    port: parsePort(userMessage.match(/\b(\d{1,5})\b/)?.[1]) ?? 3000,
+    upstream,
+    protocol: protocolMatch ? (protocolMatch[1].toLowerCase() as NgrokTunnelProtocol) : 'http',
+    protect: /\b(basic.?auth|password|credentials)\b/i.test(userMessage),
+  };
+}
+
+// Rooms whose messages only the requester and the agent can read
+const PRIVATE_CHANNEL_TYPES: string[] = [ChannelType.DM, ChannelType.VOICE_DM, ChannelType.API];
+
+function generateBasicAuth(): NgrokBasicAuth {
+  return {
+    username: `agent-${randomBytes(4).toString('hex')}`,
+    password: randomBytes(24).toString('base64url'),
+  };
+}
+
+/**
+ * Hands generated credentials to the requesting user only: inline when the
+ * conversation is private, otherwise as a direct message. Returns false when
+ * they could not be delivered privately.
+ */
+async function deliverCredentials(
+  runtime: IAgentRuntime,
+  message: Memory,
+  credentials: NgrokBasicAuth,
+  url: string
+): Promise<'inline' | 'direct' | false> {
+  const room = await runtime.getRoom(message.roomId);
+  if (room && PRIVATE_CHANNEL_TYPES.includes(room.type)) {
+    return 'inline';
+  }
+
+  try {
+    await runtime.sendMessageToTarget(
+      { source: message.content.source || room?.source || '', entityId: message.entityId },
+      {
+        text: `🔐 Credentials for ${url}\n\n👤 Username: ${credentials.username}\n🔑 Password: ${credentials.password}`,
+      }
+    );
+    return 'direct';
+  } catch (error: any) {
+    elizaLogger.error(`Failed to send tunnel credentials privately: ${error.message}`);
+    return false;
+  }
+}
+
 export const startTunnelAction: Action = {
   name: 'START_TUNNEL',
   similes: ['OPEN_TUNNEL', 'CREATE_TUNNEL', 'NGROK_START', 'TUNNEL_UP'],
@@ -48,7 +166,7 @@ export const startTunnelAction: Action = {
     options?: any,
     callback?: HandlerCallback
   ): Promise<boolean> => {
-    const tunnelService = runtime.getService('tunnel') as ITunnelService;
+    const tunnelService = runtime.getService('tunnel') as NgrokService;
     if (!tunnelService) {
       elizaLogger.error('Tunnel service is not available');
       if (callback) {
@@ -83,38 +201,59 @@ export const startTunnelAction: Action = {
         temperature: 0.3,
       });
 
-      let port = 3000; // default
-      try {
-        const parsed = JSON.parse(portResponse);
-        if (parsed.port) {
-          // Handle both number and string port values
-          const portNum = typeof parsed.port === 'string' ? parseInt(parsed.port, 10) : parsed.port;
-          if (!isNaN(portNum) && portNum > 0 && portNum <= 65535) {
-            port = portNum;
-          }
+      const { port, upstream, protocol, protect } = parseTunnelRequest(
+        portResponse,
+        message.content.text || ''
+      );
+
+      // Set by callers rather than read from chat, so the signing secret never appears in a message
+      const verifyWebhook: NgrokWebhookVerification | undefined = options?.verifyWebhook;
+      // Only HTTP tunnels support basic auth, and webhook senders cannot send credentials
+      const credentials =
+        protect && protocol === 'http' && !verifyWebhook ? generateBasicAuth() : undefined;
+      const url = await tunnelService.startTunnel(upstream ?? port, {
+        protocol,
+        basicAuth: credentials,
+        verifyWebhook,
+      });
+
+      let access = '';
+      if (credentials) {
+        const delivery = await deliverCredentials(runtime, message, credentials, url as string);
+        if (!delivery) {
+          // Never leave a protected tunnel up whose credentials nobody received
+          await tunnelService.stopTunnel();
+          throw new Error(
+            'Could not send the tunnel credentials to you privately. Ask me again in a direct message.'
+          );
         }
-      } catch (e) {
-        // Try to extract port from plain text response
-        const portMatch = portResponse.match(/\b(\d{1,5})\b/);
-        if (portMatch) {
-          const portNum = parseInt(portMatch[1], 10);
-          if (!isNaN(portNum) && portNum > 0 && portNum <= 65535) {
-            port = portNum;
-          }
+        access =
+          delivery === 'inline'
+            ? `\n\n🔐 Basic auth is required:\n👤 Username: ${credentials.username}\n🔑 Password: ${credentials.password}`
+            : '\n\n🔐 Basic auth is required. I sent you the credentials in a direct message.';
+      } else {
+        const { basicAuthUsername, webhookVerification } = tunnelService.getStatus();
+        if (basicAuthUsername) {
+          access = `\n\n🔐 Basic auth is required (username: ${basicAuthUsername}).`;
+        } else if (webhookVerification) {
+          access = `\n\n✍️ Only requests with a valid ${webhookVerification} signature reach your service.`;
         }
-        elizaLogger.warn('Failed to parse port from response, using default 3000');
       }
 
-      const url = await tunnelService.startTunnel(port);
-
-      const responseText = `✅ Ngrok tunnel started successfully!\n\n🌐 Public URL: ${url}\n🔌 Local Port: ${port}\n\nYour local service is now accessible from the internet.`;
+      const status = tunnelService.getStatus();
+      const addressLabel = protocol === 'http' ? 'Public URL' : 'Public Address';
+      const target = upstream ? `🔌 Upstream: ${status.upstream}` : `🔌 Local Port: ${port}`;
+      const responseText = `✅ Ngrok ${protocol === 'http' ? '' : `${protocol.toUpperCase()} `}tunnel started successfully!\n\n🌐 ${addressLabel}: ${url}\n${target}\n\nYour local service is now accessible from the internet.${access}`;
 
       if (callback) {
         await callback({
           text: responseText,
           metadata: {
             tunnelUrl: url,
-            port: port,
+            port: upstream ? status.port : port,
+            upstream: status.upstream,
+            protocol,
+            basicAuth: !!status.basicAuthUsername,
             action: 'tunnel_started',
           },
         });
@@ -124,11 +263,19 @@ export const startTunnelAction: Action = {
     } catch (error: any) {
       elizaLogger.error('Failed to start tunnel:', error);
 
+      // Typed ngrok failures carry their own remediation hint
+      const hint =
+        error instanceof NgrokError
+          ? error.hint
+          : 'Please make sure ngrok is installed and configured properly.';
+
       if (callback) {
         await callback({
-          text: `❌ Failed to start ngrok tunnel: ${error.message}\n\nPlease make sure ngrok is installed and configured properly.`,
+          text: `❌ Failed to start ngrok tunnel: ${error.message}\n\n${hint}`,
           metadata: {
             error: error.message,
+            errorCode: error instanceof NgrokError ? error.code : undefined,
+            ngrokErrorCode: error instanceof NgrokError ? error.ngrokCode : undefined,
             action: 'tunnel_failed',
           },
         });
@@ -168,6 +315,36 @@ export const startTunnelAction: Action = {
         },
       },
     ],
+    [
+      {
+        name: 'user',
+        content: {
+          text: 'Expose my Postgres on 5432 over TCP so a teammate can connect',
+        },
+      },
+      {
+        name: 'assistant',
+        content: {
+          text: '✅ Ngrok TCP tunnel started successfully!\n\n🌐 Public Address: tcp://0.tcp.ngrok.io:12345\n🔌 Local Port: 5432\n\nYour local service is now accessible from the internet.',
+          action: 'START_TUNNEL',
+        },
+      },
+    ],
+    [
+      {
+        name: 'user',
+        content: {
+          text: 'Expose the postgres container at db:5432 over TCP',
+        },
+      },
+      {
+        name: 'assistant',
+        content: {
+          text: '✅ Ngrok TCP tunnel started successfully!\n\n🌐 Public Address: tcp://4.tcp.ngrok.io:15432\n🔌 Upstream: db:5432\n\nYour local service is now accessible from the internet.',
+          action: 'START_TUNNEL',
+        },
+      },
+    ],
   ],
 };
 
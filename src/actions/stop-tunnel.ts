@@ -7,6 +7,7 @@ import {
   type State,
   elizaLogger,
 } from '@elizaos/core';
+import type { NgrokTunnelStatus } from '../types';
 
 export const stopTunnelAction: Action = {
   name: 'STOP_TUNNEL',
@@ -53,10 +54,15 @@ export const stopTunnelAction: Action = {
       const status = tunnelService.getStatus();
       const previousUrl = status.url;
       const previousPort = status.port;
+      const previousUpstream = (status as NgrokTunnelStatus).upstream ?? null;
 
       await tunnelService.stopTunnel();
 
-      const responseText = `✅ Ngrok tunnel stopped successfully!\n\n🔌 Was running on port: ${previousPort}\n🌐 Previous URL: ${previousUrl}\n\nThe tunnel has been closed and is no longer accessible.`;
+      const target =
+        previousUpstream && previousUpstream !== `localhost:${previousPort}`
+          ? `Was forwarding to: ${previousUpstream}`
+          : `Was running on port: ${previousPort}`;
+      const responseText = `✅ Ngrok tunnel stopped successfully!\n\n🔌 ${target}\n🌐 Previous URL: ${previousUrl}\n\nThe tunnel has been closed and is no longer accessible.`;
 
       if (callback) {
         await callback({
@@ -64,6 +70,7 @@ export const stopTunnelAction: Action = {
           metadata: {
             previousUrl,
             previousPort,
+            previousUpstream,
             action: 'tunnel_stopped',
           },
         });
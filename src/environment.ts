@@ -1,34 +1,293 @@
 import type { IAgentRuntime } from '@elizaos/core';
 import { elizaLogger } from '@elizaos/core';
+import * as fs from 'fs';
+import * as net from 'net';
 import { z } from 'zod';
+import { NGROK_OAUTH_PROVIDERS, NGROK_WEBHOOK_PROVIDERS } from './types';
 
-export const ngrokEnvSchema = z.object({
-  NGROK_AUTH_TOKEN: z.string().optional(),
-  NGROK_REGION: z
-    .union([z.string(), z.number()])
-    .optional()
-    .transform((val) => {
-      if (val === undefined || val === null) return 'us';
-      return String(val);
-    })
-    .default('us'),
-  NGROK_SUBDOMAIN: z.string().optional(),
-  NGROK_DOMAIN: z.string().optional(),
-  NGROK_DEFAULT_PORT: z
+const existingFile = z
+  .string()
+  .refine((path) => fs.existsSync(path), { message: 'File does not exist' });
+
+// Non-negative integer setting that falls back to its default when missing or invalid
+const integerSetting = (defaultValue: number) =>
+  z
     .union([z.string(), z.number()])
     .optional()
     .transform((val) => {
-      if (val === undefined || val === '') return 3000;
+      if (val === undefined || val === '') return defaultValue;
       const num = typeof val === 'string' ? parseInt(val, 10) : val;
-      // If port is 0 or invalid, use default
-      if (isNaN(num) || num <= 0 || num > 65535) return 3000;
+      if (isNaN(num) || num < 0) return defaultValue;
       return num;
     })
-    .default(3000),
+    .default(defaultValue);
+
+// ngrok rejects passwords outside 8 to 128 characters
+export const basicAuthSchema = z.object({
+  username: z
+    .string()
+    .min(1, 'Username is required')
+    .regex(/^[^:\s]+$/, 'Username cannot contain colons or whitespace'),
+  password: z
+    .string()
+    .min(8, 'Password must be at least 8 characters')
+    .max(128, 'Password must be at most 128 characters'),
+});
+
+const email = z.string().email('Expected an email address');
+const domain = z
+  .string()
+  .regex(/^(?=.{1,253}$)([a-z0-9-]+\.)+[a-z]{2,}$/i, 'Expected a domain such as example.com');
+
+const cidr = z
+  .string()
+  .trim()
+  .refine(
+    (value) => {
+      const [address, prefix, ...rest] = value.split('/');
+      const version = net.isIP(address);
+      return (
+        version !== 0 &&
+        rest.length === 0 &&
+        /^\d{1,3}$/.test(prefix ?? '') &&
+        Number(prefix) <= (version === 4 ? 32 : 128)
+      );
+    },
+    { message: 'Expected a CIDR such as 192.0.2.0/24 or 2001:db8::/32' }
+  );
+
+// RFC 9110 token characters
+const headerName = z
+  .string()
+  .regex(/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/, 'Expected an HTTP header name');
+const headerValue = z.string().regex(/^[^\r\n]*$/, 'Header values cannot contain line breaks');
+// "Name: value" as used by the NGROK_*_HEADER_ADD settings
+const headerLine = z
+  .string()
+  .regex(/^[!#$%&'*+.^_`|~0-9A-Za-z-]+:[^\r\n]*$/, 'Expected "Name: value"');
+
+// Comma-separated setting such as "alice@example.com, bob@example.com"
+const listSetting = <T extends z.ZodTypeAny>(item: T) =>
+  z
+    .string()
+    .optional()
+    .transform((val) =>
+      val
+        ? val
+            .split(',')
+            .map((entry) => entry.trim())
+            .filter(Boolean)
+        : undefined
+    )
+    .pipe(z.array(item).optional());
+
+export const ipRestrictionSchema = z.object({
+  allowCidrs: z.array(cidr).optional(),
+  denyCidrs: z.array(cidr).optional(),
+});
+
+export const webhookVerificationSchema = z.object({
+  provider: z.enum(NGROK_WEBHOOK_PROVIDERS),
+  secret: z.string().min(1, 'Webhook secret is required'),
 });
 
+export const headerRulesSchema = z.object({
+  add: z.record(headerName, headerValue).optional(),
+  remove: z.array(headerName).optional(),
+});
+
+export const hostHeaderSchema = headerValue.min(1, 'Host header cannot be empty');
+
+const trafficPolicyRule = z
+  .object({
+    name: z.string().optional(),
+    expressions: z.array(z.string().min(1, 'Expressions cannot be empty')).optional(),
+    actions: z
+      .array(
+        z
+          .object({
+            type: z.string().min(1, 'Every action needs a type'),
+            config: z.record(z.unknown()).optional(),
+          })
+          .strict()
+      )
+      .min(1, 'Every rule needs at least one action'),
+  })
+  .strict();
+
+// Unknown keys are rejected so that a misspelled phase does not silently drop its rules
+export const trafficPolicySchema = z
+  .object({
+    on_tcp_connect: z.array(trafficPolicyRule).optional(),
+    on_http_request: z.array(trafficPolicyRule).optional(),
+    on_http_response: z.array(trafficPolicyRule).optional(),
+  })
+  .strict();
+
+const identityProvider = z.enum([...NGROK_OAUTH_PROVIDERS, 'oidc']);
+
+export const identityPolicySchema = z
+  .object({
+    provider: identityProvider,
+    allowEmails: z.array(email).optional(),
+    allowDomains: z.array(domain).optional(),
+    issuerUrl: z.string().url().optional(),
+    clientId: z.string().min(1).optional(),
+    clientSecret: z.string().min(1).optional(),
+  })
+  .refine(
+    (policy) =>
+      policy.provider !== 'oidc' ||
+      (!!policy.issuerUrl && !!policy.clientId && !!policy.clientSecret),
+    { message: 'OIDC requires an issuer URL, client ID and client secret', path: ['issuerUrl'] }
+  );
+
+export const ngrokEnvSchema = z
+  .object({
+    NGROK_AUTH_TOKEN: z.string().optional(),
+    NGROK_REGION: z
+      .union([z.string(), z.number()])
+      .optional()
+      .transform((val) => {
+        if (val === undefined || val === null) return 'us';
+        return String(val);
+      })
+      .default('us'),
+    NGROK_SUBDOMAIN: z.string().optional(),
+    NGROK_DOMAIN: z.string().optional(),
+    // Inline YAML or JSON document; files are read from NGROK_TRAFFIC_POLICY_FILE
+    NGROK_TRAFFIC_POLICY: z.string().optional(),
+    NGROK_TRAFFIC_POLICY_FILE: existingFile.optional(),
+    NGROK_DEFAULT_PORT: z
+      .union([z.string(), z.number()])
+      .optional()
+      .transform((val) => {
+        if (val === undefined || val === '') return 3000;
+        const num = typeof val === 'string' ? parseInt(val, 10) : val;
+        // If port is 0 or invalid, use default
+        if (isNaN(num) || num <= 0 || num > 65535) return 3000;
+        return num;
+      })
+      .default(3000),
+    NGROK_BACKEND: z.enum(['cli', 'sdk']).optional().default('cli'),
+    NGROK_INSPECT_ADDR: z
+      .string()
+      .regex(/^[^:\s]+(:\d{1,5})?$/, 'Expected host or host:port')
+      .optional(),
+    // 0 disables automatic reconnects
+    NGROK_RECONNECT_MAX_ATTEMPTS: integerSetting(5),
+    // Milliseconds between health probes, 0 disables them
+    NGROK_HEALTH_CHECK_INTERVAL: integerSetting(30000),
+    NGROK_HEALTH_CHECK_PATH: z.string().startsWith('/').optional(),
+    NGROK_HEALTH_CHECK_STATUS: z.coerce.number().int().min(100).max(599).optional(),
+    // Probes otherwise stop at the upstream, since every public request counts against the plan
+    NGROK_HEALTH_CHECK_PUBLIC: z
+      .string()
+      .optional()
+      .transform((val) => val === 'true'),
+    // username:password required by every HTTP tunnel that does not set its own credentials
+    NGROK_BASIC_AUTH: z
+      .string()
+      .regex(
+        /^[^:\s]+:.{8,128}$/,
+        'Expected username:password with a password of 8 to 128 characters'
+      )
+      .optional(),
+    // Sign-in required by every HTTP tunnel that does not set its own access control
+    NGROK_OAUTH_PROVIDER: identityProvider.optional(),
+    NGROK_OAUTH_ALLOW_EMAILS: listSetting(email),
+    NGROK_OAUTH_ALLOW_DOMAINS: listSetting(domain),
+    NGROK_OIDC_ISSUER_URL: z.string().url().optional(),
+    NGROK_OIDC_CLIENT_ID: z.string().optional(),
+    NGROK_OIDC_CLIENT_SECRET: z.string().optional(),
+    // Signature check applied to every HTTP tunnel that does not set its own
+    NGROK_VERIFY_WEBHOOK_PROVIDER: z.enum(NGROK_WEBHOOK_PROVIDERS).optional(),
+    NGROK_VERIFY_WEBHOOK_SECRET: z.string().optional(),
+    // Header rules applied to every HTTP tunnel that does not set its own; additions are
+    // comma-separated "Name: value" pairs, removals comma-separated names
+    NGROK_REQUEST_HEADER_ADD: listSetting(headerLine),
+    NGROK_REQUEST_HEADER_REMOVE: listSetting(headerName),
+    NGROK_RESPONSE_HEADER_ADD: listSetting(headerLine),
+    NGROK_RESPONSE_HEADER_REMOVE: listSetting(headerName),
+    NGROK_HOST_HEADER: hostHeaderSchema.optional(),
+    // Client networks let into every tunnel that does not set its own, as comma-separated CIDRs
+    NGROK_IP_ALLOW: listSetting(cidr),
+    NGROK_IP_DENY: listSetting(cidr),
+    NGROK_TLS_CERT_PATH: existingFile.optional(),
+    NGROK_TLS_KEY_PATH: existingFile.optional(),
+  })
+  .refine(
+    (config) =>
+      config.NGROK_OAUTH_PROVIDER ||
+      (!config.NGROK_OAUTH_ALLOW_EMAILS && !config.NGROK_OAUTH_ALLOW_DOMAINS),
+    {
+      message:
+        'NGROK_OAUTH_ALLOW_EMAILS and NGROK_OAUTH_ALLOW_DOMAINS require NGROK_OAUTH_PROVIDER',
+      path: ['NGROK_OAUTH_PROVIDER'],
+    }
+  )
+  .refine(
+    (config) =>
+      config.NGROK_OAUTH_PROVIDER !== 'oidc' ||
+      (!!config.NGROK_OIDC_ISSUER_URL &&
+        !!config.NGROK_OIDC_CLIENT_ID &&
+        !!config.NGROK_OIDC_CLIENT_SECRET),
+    {
+      message:
+        'NGROK_OAUTH_PROVIDER=oidc requires NGROK_OIDC_ISSUER_URL, NGROK_OIDC_CLIENT_ID and NGROK_OIDC_CLIENT_SECRET',
+      path: ['NGROK_OIDC_ISSUER_URL'],
+    }
+  )
+  .refine(
+    (config) => !config.NGROK_VERIFY_WEBHOOK_PROVIDER === !config.NGROK_VERIFY_WEBHOOK_SECRET,
+    {
+      message: 'NGROK_VERIFY_WEBHOOK_PROVIDER and NGROK_VERIFY_WEBHOOK_SECRET must be set together',
+      path: ['NGROK_VERIFY_WEBHOOK_SECRET'],
+    }
+  )
+  .refine(
+    (config) =>
+      !config.NGROK_VERIFY_WEBHOOK_PROVIDER ||
+      (!config.NGROK_BASIC_AUTH && !config.NGROK_OAUTH_PROVIDER),
+    {
+      // Webhook senders can neither send credentials nor sign in
+      message:
+        'NGROK_VERIFY_WEBHOOK_PROVIDER cannot be combined with NGROK_BASIC_AUTH or NGROK_OAUTH_PROVIDER',
+      path: ['NGROK_VERIFY_WEBHOOK_PROVIDER'],
+    }
+  )
+  .refine((config) => !config.NGROK_BASIC_AUTH || !config.NGROK_OAUTH_PROVIDER, {
+    message: 'NGROK_BASIC_AUTH cannot be combined with NGROK_OAUTH_PROVIDER',
+    path: ['NGROK_BASIC_AUTH'],
+  })
+  .refine((config) => !config.NGROK_TRAFFIC_POLICY || !config.NGROK_TRAFFIC_POLICY_FILE, {
+    message: 'Set either NGROK_TRAFFIC_POLICY or NGROK_TRAFFIC_POLICY_FILE, not both',
+    path: ['NGROK_TRAFFIC_POLICY_FILE'],
+  })
+  .refine((config) => !config.NGROK_TLS_CERT_PATH === !config.NGROK_TLS_KEY_PATH, {
+    message: 'NGROK_TLS_CERT_PATH and NGROK_TLS_KEY_PATH must be set together',
+    path: ['NGROK_TLS_KEY_PATH'],
+  });
+
 export type NgrokConfig = z.infer<typeof ngrokEnvSchema>;
 
+// Settings whose values are never written to the logs
+const SECRET_SETTINGS = [
+  'NGROK_AUTH_TOKEN',
+  'NGROK_BASIC_AUTH',
+  'NGROK_OIDC_CLIENT_SECRET',
+  'NGROK_VERIFY_WEBHOOK_SECRET',
+];
+
+function redactSecrets(config: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(config).map(([key, value]) => [
+      key,
+      value && SECRET_SETTINGS.includes(key) ? '[redacted]' : value,
+    ])
+  );
+}
+
 export async function validateNgrokConfig(runtime: IAgentRuntime): Promise<NgrokConfig> {
   try {
     elizaLogger.debug('Validating Ngrok configuration with runtime settings');
@@ -37,13 +296,68 @@ export async function validateNgrokConfig(runtime: IAgentRuntime): Promise<Ngrok
       NGROK_REGION: runtime.getSetting('NGROK_REGION') || process.env.NGROK_REGION,
       NGROK_SUBDOMAIN: runtime.getSetting('NGROK_SUBDOMAIN') || process.env.NGROK_SUBDOMAIN,
       NGROK_DOMAIN: runtime.getSetting('NGROK_DOMAIN') || process.env.NGROK_DOMAIN,
+      NGROK_TRAFFIC_POLICY:
+        runtime.getSetting('NGROK_TRAFFIC_POLICY') || process.env.NGROK_TRAFFIC_POLICY,
+      NGROK_TRAFFIC_POLICY_FILE:
+        runtime.getSetting('NGROK_TRAFFIC_POLICY_FILE') || process.env.NGROK_TRAFFIC_POLICY_FILE,
       NGROK_DEFAULT_PORT:
         runtime.getSetting('NGROK_DEFAULT_PORT') ||
         process.env.NGROK_DEFAULT_PORT ||
         process.env.NGROK_TUNNEL_PORT,
+      NGROK_BACKEND: runtime.getSetting('NGROK_BACKEND') || process.env.NGROK_BACKEND,
+      NGROK_INSPECT_ADDR:
+        runtime.getSetting('NGROK_INSPECT_ADDR') || process.env.NGROK_INSPECT_ADDR,
+      NGROK_RECONNECT_MAX_ATTEMPTS:
+        runtime.getSetting('NGROK_RECONNECT_MAX_ATTEMPTS') ||
+        process.env.NGROK_RECONNECT_MAX_ATTEMPTS,
+      NGROK_HEALTH_CHECK_INTERVAL:
+        runtime.getSetting('NGROK_HEALTH_CHECK_INTERVAL') ||
+        process.env.NGROK_HEALTH_CHECK_INTERVAL,
+      NGROK_HEALTH_CHECK_PATH:
+        runtime.getSetting('NGROK_HEALTH_CHECK_PATH') || process.env.NGROK_HEALTH_CHECK_PATH,
+      NGROK_HEALTH_CHECK_STATUS:
+        runtime.getSetting('NGROK_HEALTH_CHECK_STATUS') || process.env.NGROK_HEALTH_CHECK_STATUS,
+      NGROK_HEALTH_CHECK_PUBLIC:
+        runtime.getSetting('NGROK_HEALTH_CHECK_PUBLIC') || process.env.NGROK_HEALTH_CHECK_PUBLIC,
+      NGROK_BASIC_AUTH: runtime.getSetting('NGROK_BASIC_AUTH') || process.env.NGROK_BASIC_AUTH,
+      NGROK_OAUTH_PROVIDER:
+        runtime.getSetting('NGROK_OAUTH_PROVIDER') || process.env.NGROK_OAUTH_PROVIDER,
+      NGROK_OAUTH_ALLOW_EMAILS:
+        runtime.getSetting('NGROK_OAUTH_ALLOW_EMAILS') || process.env.NGROK_OAUTH_ALLOW_EMAILS,
+      NGROK_OAUTH_ALLOW_DOMAINS:
+        runtime.getSetting('NGROK_OAUTH_ALLOW_DOMAINS') || process.env.NGROK_OAUTH_ALLOW_DOMAINS,
+      NGROK_OIDC_ISSUER_URL:
+        runtime.getSetting('NGROK_OIDC_ISSUER_URL') || process.env.NGROK_OIDC_ISSUER_URL,
+      NGROK_OIDC_CLIENT_ID:
+        runtime.getSetting('NGROK_OIDC_CLIENT_ID') || process.env.NGROK_OIDC_CLIENT_ID,
+      NGROK_OIDC_CLIENT_SECRET:
+        runtime.getSetting('NGROK_OIDC_CLIENT_SECRET') || process.env.NGROK_OIDC_CLIENT_SECRET,
+      NGROK_VERIFY_WEBHOOK_PROVIDER:
+        runtime.getSetting('NGROK_VERIFY_WEBHOOK_PROVIDER') ||
+        process.env.NGROK_VERIFY_WEBHOOK_PROVIDER,
+      NGROK_VERIFY_WEBHOOK_SECRET:
+        runtime.getSetting('NGROK_VERIFY_WEBHOOK_SECRET') ||
+        process.env.NGROK_VERIFY_WEBHOOK_SECRET,
+      NGROK_REQUEST_HEADER_ADD:
+        runtime.getSetting('NGROK_REQUEST_HEADER_ADD') || process.env.NGROK_REQUEST_HEADER_ADD,
+      NGROK_REQUEST_HEADER_REMOVE:
+        runtime.getSetting('NGROK_REQUEST_HEADER_REMOVE') ||
+        process.env.NGROK_REQUEST_HEADER_REMOVE,
+      NGROK_RESPONSE_HEADER_ADD:
+        runtime.getSetting('NGROK_RESPONSE_HEADER_ADD') || process.env.NGROK_RESPONSE_HEADER_ADD,
+      NGROK_RESPONSE_HEADER_REMOVE:
+        runtime.getSetting('NGROK_RESPONSE_HEADER_REMOVE') ||
+        process.env.NGROK_RESPONSE_HEADER_REMOVE,
+      NGROK_HOST_HEADER: runtime.getSetting('NGROK_HOST_HEADER') || process.env.NGROK_HOST_HEADER,
+      NGROK_IP_ALLOW: runtime.getSetting('NGROK_IP_ALLOW') || process.env.NGROK_IP_ALLOW,
+      NGROK_IP_DENY: runtime.getSetting('NGROK_IP_DENY') || process.env.NGROK_IP_DENY,
+      NGROK_TLS_CERT_PATH:
+        runtime.getSetting('NGROK_TLS_CERT_PATH') || process.env.NGROK_TLS_CERT_PATH,
+      NGROK_TLS_KEY_PATH:
+        runtime.getSetting('NGROK_TLS_KEY_PATH') || process.env.NGROK_TLS_KEY_PATH,
     };
 
-    elizaLogger.debug('Parsing configuration with schema', config);
+    elizaLogger.debug('Parsing configuration with schema', redactSecrets(config));
     const validated = ngrokEnvSchema.parse(config);
     elizaLogger.debug('Configuration validated successfully');
     return validated;
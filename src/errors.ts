@@ -0,0 +1,141 @@
+export type NgrokErrorCode =
+  | 'AUTH_TOKEN_INVALID'
+  | 'DOMAIN_IN_USE'
+  | 'PLAN_REQUIRED'
+  | 'PORT_IN_USE'
+  | 'BINARY_MISSING'
+  | 'UNKNOWN';
+
+/**
+ * Base class for failures reported by ngrok. `code` is stable for callers to
+ * switch on, `ngrokCode` carries ngrok's own code (e.g. ERR_NGROK_334) when
+ * one was reported, and `hint` tells the user how to fix the problem.
+ */
+export class NgrokError extends Error {
+  constructor(
+    message: string,
+    readonly code: NgrokErrorCode,
+    readonly hint: string,
+    readonly ngrokCode?: string
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class AuthTokenInvalidError extends NgrokError {
+  constructor(message = 'The ngrok auth token was rejected', ngrokCode?: string) {
+    super(
+      message,
+      'AUTH_TOKEN_INVALID',
+      'Check NGROK_AUTH_TOKEN against https://dashboard.ngrok.com/get-started/your-authtoken',
+      ngrokCode
+    );
+  }
+}
+
+export class DomainInUseError extends NgrokError {
+  constructor(
+    message = 'Failed to start tunnel - domain might already be in use',
+    ngrokCode?: string
+  ) {
+    super(
+      message,
+      'DOMAIN_IN_USE',
+      'Another ngrok session is already serving this endpoint. Stop it or wait a few seconds and retry, or set NGROK_USE_RANDOM_SUBDOMAIN=true to get a random URL.',
+      ngrokCode
+    );
+  }
+}
+
+export class PlanRequiredError extends NgrokError {
+  constructor(message: string, hint: string, ngrokCode?: string) {
+    super(message, 'PLAN_REQUIRED', hint, ngrokCode);
+  }
+}
+
+export class PortInUseError extends NgrokError {
+  constructor(message = 'Port is already in use', ngrokCode?: string) {
+    super(
+      message,
+      'PORT_IN_USE',
+      'Another process is bound to the address ngrok needs. Stop it or choose a different port.',
+      ngrokCode
+    );
+  }
+}
+
+export class BinaryMissingError extends NgrokError {
+  constructor(
+    message = 'ngrok is not installed. Please install it from https://ngrok.com/download or run: brew install ngrok'
+  ) {
+    super(
+      message,
+      'BINARY_MISSING',
+      'Install ngrok from https://ngrok.com/download (brew install ngrok), or set NGROK_BACKEND=sdk to run tunnels without the binary.'
+    );
+  }
+}
+
+/**
+ * Maps raw ngrok output (CLI stderr or an SDK error message) to a typed error.
+ */
+export function classifyNgrokError(
+  output: string,
+  context: { domain?: string; ngrokCode?: string } = {}
+): NgrokError {
+  const ngrokCode = context.ngrokCode || output.match(/ERR_NGROK_\d+/)?.[0];
+
+  if (
+    ngrokCode === 'ERR_NGROK_105' ||
+    ngrokCode === 'ERR_NGROK_107' ||
+    /authtoken.*(invalid|not valid)/i.test(output)
+  ) {
+    return new AuthTokenInvalidError(undefined, ngrokCode);
+  }
+
+  if (ngrokCode === 'ERR_NGROK_15002' || output.includes('Pay-as-you-go')) {
+    // Pay-as-you-go account requires domain
+    return context.domain
+      ? new PlanRequiredError(
+          'Failed to start tunnel with pay-as-you-go account. Ensure your domain is registered at https://dashboard.ngrok.com/domains',
+          'Reserve the domain in NGROK_DOMAIN at https://dashboard.ngrok.com/domains.',
+          ngrokCode
+        )
+      : new PlanRequiredError(
+          'Pay-as-you-go ngrok account requires NGROK_DOMAIN to be set. Please set NGROK_DOMAIN=your-domain.ngrok-free.app in your .env file',
+          'Set NGROK_DOMAIN to a domain reserved at https://dashboard.ngrok.com/domains.',
+          ngrokCode
+        );
+  }
+
+  if (ngrokCode === 'ERR_NGROK_313') {
+    return new PlanRequiredError(
+      'Custom subdomains require a paid ngrok plan',
+      'Upgrade your ngrok plan, use NGROK_DOMAIN with a reserved domain, or unset NGROK_SUBDOMAIN.',
+      ngrokCode
+    );
+  }
+
+  if (output.includes('address already in use')) {
+    return new PortInUseError(undefined, ngrokCode);
+  }
+
+  if (
+    ngrokCode === 'ERR_NGROK_334' ||
+    output.includes('already online') ||
+    output.includes('failed to start tunnel') ||
+    output.includes('is already bound to another tunnel') ||
+    output.includes('tunnel session failed')
+  ) {
+    // This might happen if the domain is already in use
+    return new DomainInUseError(undefined, ngrokCode);
+  }
+
+  return new NgrokError(
+    `Ngrok error: ${output}`,
+    'UNKNOWN',
+    'Please make sure ngrok is installed and configured properly.',
+    ngrokCode
+  );
+}
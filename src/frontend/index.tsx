@@ -29,6 +29,7 @@ import {
   RefreshCw,
   Copy,
   ExternalLink,
+  BarChart3,
 } from 'lucide-react';
 
 // Types based on the tunnel service
@@ -36,9 +37,25 @@ interface TunnelStatus {
   active: boolean;
   url: string | null;
   port: number | null;
+  upstream?: string | null;
   startedAt: string | null;
   provider: string;
   uptime?: string;
+  metrics?: TunnelMetrics | null;
+}
+
+interface TunnelMetrics {
+  connections: {
+    total: number;
+    open: number;
+    rate1m: number;
+  };
+  requests: {
+    total: number;
+    rate1m: number;
+    p50Ms: number;
+    p90Ms: number;
+  } | null;
 }
 
 interface TunnelConfig {
@@ -161,7 +178,48 @@ const CopyButton = ({ text }: { text: string }) => {
   );
 };
 
+// ngrok reports rates per second; quiet tunnels read better per minute
+const formatRate = (perSecond: number) =>
+  perSecond >= 1 ? `${perSecond.toFixed(1)}/s` : `${(perSecond * 60).toFixed(1)}/min`;
+
+const TunnelMetricsSection = ({ metrics }: { metrics: TunnelMetrics }) => {
+  const { connections, requests } = metrics;
+
+  return (
+    <div className="space-y-2" data-testid="tunnel-metrics">
+      <Label className="text-xs text-muted-foreground flex items-center gap-1">
+        <BarChart3 className="h-3 w-3" />
+        Traffic
+      </Label>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Connections</Label>
+          <p className="text-sm">
+            {connections.total} total, {connections.open} open
+          </p>
+          <p className="text-xs text-muted-foreground">{formatRate(connections.rate1m)}</p>
+        </div>
+        {requests && (
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Requests</Label>
+            <p className="text-sm">
+              {requests.total} total, {formatRate(requests.rate1m)}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              p50 {requests.p50Ms}ms · p90 {requests.p90Ms}ms
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
 const ActiveTunnelCard = ({ status }: { status: TunnelStatus }) => {
+  // Tunnels forwarding elsewhere than a local port show their upstream
+  const remoteUpstream =
+    status.upstream && status.upstream !== `localhost:${status.port}` ? status.upstream : null;
+
   return (
     <Card className="border-primary/20">
       <CardHeader>
@@ -195,8 +253,10 @@ const ActiveTunnelCard = ({ status }: { status: TunnelStatus }) => {
 
         <div className="grid grid-cols-2 gap-4">
           <div className="space-y-1">
-            <Label className="text-xs text-muted-foreground">Port</Label>
-            <p className="font-mono text-sm">{status.port}</p>
+            <Label className="text-xs text-muted-foreground">
+              {remoteUpstream ? 'Upstream' : 'Port'}
+            </Label>
+            <p className="font-mono text-sm">{remoteUpstream ?? status.port}</p>
           </div>
           <div className="space-y-1">
             <Label className="text-xs text-muted-foreground">Provider</Label>
@@ -211,6 +271,13 @@ const ActiveTunnelCard = ({ status }: { status: TunnelStatus }) => {
           </Label>
           <p className="text-sm">{status.uptime || 'Just started'}</p>
         </div>
+
+        {status.metrics && (
+          <>
+            <Separator />
+            <TunnelMetricsSection metrics={status.metrics} />
+          </>
+        )}
       </CardContent>
     </Card>
   );
@@ -3,16 +3,19 @@ import { NgrokService } from './services/NgrokService';
 import { startTunnelAction } from './actions/start-tunnel';
 import { stopTunnelAction } from './actions/stop-tunnel';
 import { getTunnelStatusAction } from './actions/get-tunnel-status';
+import { replayRequestAction } from './actions/replay-request';
 import { NgrokTestSuite } from './__tests__/NgrokTestSuite';
 
 export const ngrokPlugin: Plugin = {
   name: 'ngrok',
   description: 'Ngrok tunnel integration plugin for ElizaOS',
   services: [NgrokService],
-  actions: [startTunnelAction, stopTunnelAction, getTunnelStatusAction],
+  actions: [startTunnelAction, stopTunnelAction, getTunnelStatusAction, replayRequestAction],
   tests: [new NgrokTestSuite()],
 };
 
 export default ngrokPlugin;
 
+export * from './errors';
 export * from './services/NgrokService';
+export * from './types';
@@ -1,8 +1,166 @@
 import { Service, elizaLogger } from '@elizaos/core';
-import type { IAgentRuntime, ITunnelService, TunnelStatus, TunnelConfig } from '@elizaos/core';
-import { spawn, type ChildProcess } from 'child_process';
-import * as http from 'http';
-import { validateNgrokConfig } from '../environment';
+import type { IAgentRuntime, ITunnelService, TunnelConfig } from '@elizaos/core';
+import * as fs from 'fs';
+import { BinaryMissingError, DomainInUseError } from '../errors';
+import {
+  basicAuthSchema,
+  headerRulesSchema,
+  hostHeaderSchema,
+  identityPolicySchema,
+  ipRestrictionSchema,
+  ngrokEnvSchema,
+  validateNgrokConfig,
+  webhookVerificationSchema,
+  type NgrokConfig,
+} from '../environment';
+import {
+  DEFAULT_TUNNEL_NAME,
+  NGROK_TRAFFIC_POLICY_PHASES,
+  NGROK_TUNNEL_PROTOCOLS,
+  NgrokEventType,
+  type NgrokBasicAuth,
+  type NgrokHeaderRules,
+  type NgrokIdentityPolicy,
+  type NgrokIpRestriction,
+  type NgrokCapturedRequest,
+  type NgrokReplayOptions,
+  type NgrokReplayResult,
+  type NgrokRequestFilter,
+  type NgrokTunnelEventPayload,
+  type NgrokTunnelMetrics,
+  type NgrokTunnelOptions,
+  type NgrokTunnelProtocol,
+  type NgrokTunnelState,
+  type NgrokTunnelStatus,
+  type NgrokUpstream,
+  type NgrokWebhookVerification,
+} from '../types';
+import {
+  createTunnelBackend,
+  type NgrokBackendKind,
+  type TunnelBackend,
+  type TunnelHandle,
+  type TunnelSpec,
+} from './backends';
+import { probeTunnel, type HealthProbeResult } from './health';
+import {
+  fetchCapturedRequest,
+  fetchRecentRequests,
+  fetchTunnelMetrics,
+  replayCapturedRequest,
+} from './inspector';
+import {
+  loadTrafficPolicy,
+  type LoadedTrafficPolicy,
+  type TrafficPolicySource,
+} from './traffic-policy';
+import { parseUpstream } from './upstream';
+
+interface TunnelRecord {
+  name: string;
+  upstream: NgrokUpstream;
+  protocol: NgrokTunnelProtocol;
+  // As passed to startTunnel(), persisted so the tunnel can be restored on boot
+  options: NgrokTunnelOptions;
+  tls?: TunnelSpec['tls'];
+  basicAuth?: NgrokBasicAuth;
+  identity?: NgrokIdentityPolicy;
+  ipRestriction?: NgrokIpRestriction;
+  verifyWebhook?: NgrokWebhookVerification;
+  headers: Pick<TunnelSpec, 'requestHeaders' | 'responseHeaders' | 'hostHeader'>;
+  trafficPolicy?: LoadedTrafficPolicy;
+  handle: TunnelHandle | null;
+  url: string | null;
+  startedAt: Date | null;
+  state: NgrokTunnelState;
+  reconnectCount: number;
+  // Consecutive reconnect attempts since the tunnel was last online
+  reconnectAttempts: number;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  lastError: string | null;
+  healthPath?: string;
+  healthExpectedStatus?: number;
+  health: (HealthProbeResult & { checkedAt: Date }) | null;
+  metrics: NgrokTunnelMetrics | null;
+  // Public health probes this ngrok session counted, left out of its request metrics
+  publicProbes: number;
+}
+
+// Secrets a definition was started with but left out of the runtime cache
+interface OmittedSecrets {
+  basicAuth?: boolean;
+  oidcClientSecret?: boolean;
+  webhookProvider?: NgrokWebhookVerification['provider'];
+}
+
+interface TunnelDefinition {
+  // Upstream address; definitions saved before upstream addresses were supported only have a port
+  upstream?: string;
+  port?: number;
+  options: NgrokTunnelOptions;
+  omittedSecrets?: OmittedSecrets;
+}
+
+const TUNNEL_CACHE_KEY = 'ngrok/tunnels';
+
+const SHUTDOWN_SIGNALS = ['SIGINT', 'SIGTERM'] as const;
+
+const STATE_EVENTS: Record<Exclude<NgrokTunnelState, 'idle'>, NgrokEventType> = {
+  starting: NgrokEventType.TUNNEL_STARTING,
+  online: NgrokEventType.TUNNEL_STARTED,
+  reconnecting: NgrokEventType.TUNNEL_RECONNECTING,
+  stopping: NgrokEventType.TUNNEL_STOPPING,
+  stopped: NgrokEventType.TUNNEL_STOPPED,
+  failed: NgrokEventType.TUNNEL_FAILED,
+};
+
+// NGROK_*_HEADER_ADD holds "Name: value" pairs
+function headerRulesFromSettings(
+  add: string[] | undefined,
+  remove: string[] | undefined
+): NgrokHeaderRules | undefined {
+  if (!add && !remove) {
+    return undefined;
+  }
+  return {
+    add: add
+      ? Object.fromEntries(
+          add.map((line) => {
+            const separator = line.indexOf(':');
+            return [line.slice(0, separator), line.slice(separator + 1).trim()];
+          })
+        )
+      : undefined,
+    remove,
+  };
+}
+
+// Status and events never carry the OIDC client secret
+function describeIdentityPolicy({
+  clientSecret,
+  ...policy
+}: NgrokIdentityPolicy): Omit<NgrokIdentityPolicy, 'clientSecret'> {
+  return policy;
+}
+
+// Persisted options never carry secrets; restoreSecrets() reads them back from settings
+function withoutSecrets({
+  basicAuth,
+  identity,
+  verifyWebhook,
+  ...rest
+}: NgrokTunnelOptions): Pick<TunnelDefinition, 'options' | 'omittedSecrets'> {
+  const options: NgrokTunnelOptions = rest;
+  if (identity) {
+    options.identity = describeIdentityPolicy(identity);
+  }
+  const omittedSecrets: OmittedSecrets = {
+    ...(basicAuth && { basicAuth: true }),
+    ...(identity?.clientSecret && { oidcClientSecret: true }),
+    ...(verifyWebhook && { webhookProvider: verifyWebhook.provider }),
+  };
+  return Object.keys(omittedSecrets).length > 0 ? { options, omittedSecrets } : { options };
+}
 
 export class NgrokService extends Service implements ITunnelService {
   static serviceType = 'tunnel';
@@ -10,94 +168,358 @@ export class NgrokService extends Service implements ITunnelService {
     'Provides secure tunnel functionality using ngrok for exposing local services to the internet';
 
   private static readonly MIN_TUNNEL_INTERVAL = 2000; // 2 seconds minimum between tunnel starts
-  private static readonly CLEANUP_TIMEOUT = 5000; // 5 seconds max for cleanup
-  
-  private ngrokProcess: ChildProcess | null = null;
-  private tunnelUrl: string | null = null;
-  private tunnelPort: number | null = null;
-  private startedAt: Date | null = null;
+  private static readonly RECONNECT_BASE_DELAY = 1000; // doubled after every failed reconnect
+  private static readonly RECONNECT_MAX_DELAY = 30000;
+  private static readonly CLEANUP_TIMEOUT = 5000; // 5 seconds max to stop every tunnel on shutdown
+  // Live instance per runtime, so the static lifecycle controls the real tunnels
+  private static readonly instances = new WeakMap<IAgentRuntime, NgrokService>();
+
+  private tunnels = new Map<string, TunnelRecord>();
+  // Tunnels the agent wants exposed, mirrored to the runtime cache
+  private definitions = new Map<string, TunnelDefinition>();
+  private isServiceStopping = false;
+  private shutdownHandlers: Array<[string, (...args: any[]) => void]> = [];
+  private shutdownPromise: Promise<void> | null = null;
   private lastStartTime = 0;
+  private ngrokConfig: NgrokConfig = ngrokEnvSchema.parse({});
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
   private tunnelConfig: TunnelConfig;
-  private isShuttingDown = false;
-  
-  constructor(runtime: IAgentRuntime) {
+  private backend: TunnelBackend;
+
+  constructor(runtime: IAgentRuntime, config?: TunnelConfig) {
     super();
     this.runtime = runtime;
     this.tunnelConfig = {
+      ...config,
       provider: 'ngrok',
-      authToken: runtime.getSetting('NGROK_AUTH_TOKEN') || process.env.NGROK_AUTH_TOKEN,
+      authToken:
+        config?.authToken || runtime.getSetting('NGROK_AUTH_TOKEN') || process.env.NGROK_AUTH_TOKEN,
     };
+
+    const backendSetting = runtime.getSetting('NGROK_BACKEND') || process.env.NGROK_BACKEND;
+    const backendKind: NgrokBackendKind = backendSetting === 'sdk' ? 'sdk' : 'cli';
+    this.backend = createTunnelBackend(backendKind, {
+      authToken: this.tunnelConfig.authToken,
+      agentId: runtime.agentId,
+      inspectAddr: runtime.getSetting('NGROK_INSPECT_ADDR') || process.env.NGROK_INSPECT_ADDR,
+    });
   }
 
   protected runtime: IAgentRuntime;
 
   async initialize(): Promise<void> {
-    elizaLogger.info('🚇 Initializing Ngrok tunnel service...');
-    const isInstalled = await this.checkNgrokInstalled();
-    if (!isInstalled) {
-      throw new Error(
-        'ngrok is not installed. Please install it from https://ngrok.com/download or run: brew install ngrok'
-      );
-    }
+    elizaLogger.info(`🚇 Initializing Ngrok tunnel service (${this.backend.kind} backend)...`);
 
-    const authToken = this.tunnelConfig.authToken || 
-                      this.runtime.getSetting('NGROK_AUTH_TOKEN') || 
-                      process.env.NGROK_AUTH_TOKEN;
-    
-    if (authToken) {
-      await this.setAuthToken(authToken);
-      elizaLogger.info('Setting ngrok auth token');
+    await this.backend.initialize();
+
+    if (this.tunnelConfig.authToken) {
+      elizaLogger.info('Using ngrok auth token from agent settings');
     } else {
       elizaLogger.warn('No ngrok auth token found - running in limited mode');
     }
   }
 
   static async start(runtime: IAgentRuntime, config?: TunnelConfig): Promise<Service> {
-    const service = new NgrokService(runtime);
-    await service.start();
+    const existing = NgrokService.findInstance(runtime);
+    if (existing) {
+      elizaLogger.warn('NgrokService is already running for this agent');
+      return existing;
+    }
+
+    const service = new NgrokService(runtime, config);
+    NgrokService.instances.set(runtime, service);
+    try {
+      await service.start();
+    } catch (error) {
+      NgrokService.instances.delete(runtime);
+      throw error;
+    }
     return service;
   }
 
   static async stop(runtime: IAgentRuntime): Promise<void> {
-    const service = new NgrokService(runtime);
+    const service = NgrokService.findInstance(runtime);
+    if (!service) {
+      elizaLogger.warn('No running NgrokService found for this agent');
+      return;
+    }
     return service.stop();
   }
 
+  private static findInstance(runtime: IAgentRuntime): NgrokService | null {
+    const registered = NgrokService.instances.get(runtime);
+    if (registered) return registered;
+
+    // Instances constructed directly are still reachable through the runtime
+    const service = runtime.getService?.(NgrokService.serviceType);
+    return service instanceof NgrokService ? service : null;
+  }
+
   // Base Service lifecycle methods
   async start(): Promise<void> {
+    // Orphans from a killed run still hold their domains, so clean up before restoring
+    try {
+      await this.initialize();
+    } catch (error) {
+      if (!(error instanceof BinaryMissingError)) throw error;
+      // Opening a tunnel fails with the same error, so the service itself can still run
+      elizaLogger.warn(`Tunnels cannot be opened until ngrok is installed: ${error.hint}`);
+    }
     elizaLogger.info('NgrokService started');
+    this.registerShutdownHandlers();
+    await this.restoreTunnels();
   }
 
   async stop(): Promise<void> {
-    await this.stopTunnel();
+    this.unregisterShutdownHandlers();
+    if (NgrokService.instances.get(this.runtime) === this) {
+      NgrokService.instances.delete(this.runtime);
+    }
+
+    // Shutting the agent down keeps the persisted definitions for the next boot
+    this.isServiceStopping = true;
+    try {
+      await this.stopAllTunnels();
+      await this.backend.dispose();
+    } finally {
+      this.isServiceStopping = false;
+    }
   }
 
-  // ITunnelService implementation
-  async startTunnel(port?: number): Promise<string | void> {
-    if (this.isActive()) {
-      elizaLogger.warn('Ngrok tunnel is already running');
-      return this.tunnelUrl || undefined;
+  /**
+   * Stops every tunnel when the agent process is interrupted, terminated, about
+   * to exit or crashing, so ngrok does not outlive the agent.
+   */
+  private registerShutdownHandlers(): void {
+    if (this.shutdownHandlers.length > 0) return;
+
+    for (const signal of SHUTDOWN_SIGNALS) {
+      this.shutdownHandlers.push([
+        signal,
+        async () => {
+          await this.shutdown(signal);
+          // Our listener replaced Node's default handling, so terminate unless someone else handles it
+          if (process.listenerCount(signal) === 0) {
+            process.kill(process.pid, signal);
+          }
+        },
+      ]);
     }
+    this.shutdownHandlers.push(['beforeExit', () => this.shutdown('beforeExit')]);
+    this.shutdownHandlers.push([
+      'uncaughtException',
+      async (error: Error) => {
+        elizaLogger.error('Uncaught exception, stopping ngrok tunnels:', error);
+        await this.shutdown('uncaughtException');
+        if (process.listenerCount('uncaughtException') === 0) {
+          process.exit(1);
+        }
+      },
+    ]);
+
+    for (const [event, handler] of this.shutdownHandlers) {
+      process.on(event, handler);
+    }
+  }
 
-    if (port === undefined || port === null) {
+  private unregisterShutdownHandlers(): void {
+    for (const [event, handler] of this.shutdownHandlers) {
+      process.off(event, handler);
+    }
+    this.shutdownHandlers = [];
+  }
+
+  private shutdown(reason: string): Promise<void> {
+    if (this.shutdownPromise) return this.shutdownPromise;
+
+    const running = Array.from(this.tunnels.keys());
+    elizaLogger.info(
+      `Stopping ngrok tunnels on ${reason}${running.length ? `: ${running.join(', ')}` : ''}`
+    );
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Timed out after ${NgrokService.CLEANUP_TIMEOUT}ms`)),
+        NgrokService.CLEANUP_TIMEOUT
+      );
+    });
+
+    this.shutdownPromise = Promise.race([this.stop(), timeout])
+      .catch((error: any) => {
+        const leftover = Array.from(this.tunnels.keys());
+        elizaLogger.error(
+          `Failed to stop ngrok tunnels on ${reason}: ${error.message}${
+            leftover.length ? ` (still running: ${leftover.join(', ')})` : ''
+          }`
+        );
+      })
+      .finally(() => {
+        clearTimeout(timer);
+        this.shutdownPromise = null;
+      });
+
+    return this.shutdownPromise;
+  }
+
+  /**
+   * Starts the tunnels that were running when the agent last stopped. Tunnels
+   * that fail to come back are kept and retried on the next boot; tunnels whose
+   * secrets were passed per call cannot come back and are dropped.
+   */
+  private async restoreTunnels(): Promise<void> {
+    let saved: Record<string, TunnelDefinition> | undefined;
+    try {
+      saved = await this.runtime.getCache<Record<string, TunnelDefinition>>(TUNNEL_CACHE_KEY);
+    } catch (error: any) {
+      elizaLogger.warn(`Could not load persisted ngrok tunnels: ${error.message}`);
+      return;
+    }
+    if (!saved || Object.keys(saved).length === 0) return;
+
+    // Secrets left out of the definitions come from settings
+    try {
+      this.ngrokConfig = await validateNgrokConfig(this.runtime);
+    } catch (error: any) {
+      elizaLogger.error(`Failed to restore ngrok tunnels: ${error.message}`);
+      return;
+    }
+
+    const restored: string[] = [];
+    const failed: string[] = [];
+    const skipped: string[] = [];
+    for (const [name, definition] of Object.entries(saved)) {
+      const upstream = definition.upstream ?? definition.port;
+      let options: NgrokTunnelOptions;
+      try {
+        options = this.restoreSecrets(definition);
+      } catch (error: any) {
+        skipped.push(`"${name}" (${upstream}): ${error.message}`);
+        continue;
+      }
+      this.definitions.set(name, { ...definition, ...withoutSecrets(options) });
+      try {
+        const url = await this.startTunnel(upstream, { ...options, name });
+        restored.push(`"${name}" (${upstream}) at ${url}`);
+      } catch (error: any) {
+        failed.push(`"${name}" (${upstream}): ${error.message}`);
+      }
+    }
+    // Drops skipped tunnels, and secrets saved before they were left out
+    await this.saveDefinitions();
+
+    if (restored.length > 0) {
+      elizaLogger.info(`Restored ngrok tunnels: ${restored.join(', ')}`);
+    }
+    if (skipped.length > 0) {
+      elizaLogger.warn(`Not restoring ngrok tunnels: ${skipped.join(', ')}`);
+    }
+    if (failed.length > 0) {
+      elizaLogger.error(`Failed to restore ngrok tunnels: ${failed.join(', ')}`);
+    }
+  }
+
+  // Puts back the secrets withoutSecrets() left out, from the settings that hold them
+  private restoreSecrets({ options, omittedSecrets = {} }: TunnelDefinition): NgrokTunnelOptions {
+    const config = this.ngrokConfig;
+    if (omittedSecrets.basicAuth) {
+      throw new Error('its basic auth credentials were passed per call and are never persisted');
+    }
+
+    const restored = { ...options };
+    const identity = options.identity;
+    if (identity && omittedSecrets.oidcClientSecret) {
+      if (
+        !config.NGROK_OIDC_CLIENT_SECRET ||
+        identity.issuerUrl !== config.NGROK_OIDC_ISSUER_URL ||
+        identity.clientId !== config.NGROK_OIDC_CLIENT_ID
+      ) {
+        throw new Error(
+          'its OIDC client secret was passed per call and NGROK_OIDC_CLIENT_SECRET is not set for the same client'
+        );
+      }
+      restored.identity = { ...identity, clientSecret: config.NGROK_OIDC_CLIENT_SECRET };
+    }
+
+    const provider = omittedSecrets.webhookProvider;
+    if (provider) {
+      if (
+        !config.NGROK_VERIFY_WEBHOOK_SECRET ||
+        config.NGROK_VERIFY_WEBHOOK_PROVIDER !== provider
+      ) {
+        throw new Error(
+          `its ${provider} webhook secret was passed per call and NGROK_VERIFY_WEBHOOK_SECRET is not set for ${provider}`
+        );
+      }
+      restored.verifyWebhook = { provider, secret: config.NGROK_VERIFY_WEBHOOK_SECRET };
+    }
+    return restored;
+  }
+
+  // ITunnelService implementation, operating on the "default" tunnel unless a name is given
+  // Accepts a local port or an upstream address: host:port, http(s)://host:port or unix:///path
+  async startTunnel(
+    portOrUpstream?: number | string,
+    options: NgrokTunnelOptions = {}
+  ): Promise<string | void> {
+    const name = options.name || DEFAULT_TUNNEL_NAME;
+    const protocol = options.protocol || 'http';
+    const existing = this.tunnels.get(name);
+
+    if (existing && this.isRecordActive(existing)) {
+      elizaLogger.warn(`Ngrok tunnel "${name}" is already running`);
+      return existing.url || undefined;
+    }
+
+    if (portOrUpstream === undefined || portOrUpstream === null) {
       elizaLogger.warn(
         'NgrokService.start() called without a port. The service will be active but no tunnel will be started.'
       );
       return;
     }
 
-    // Validate port range
-    if (port < 1 || port > 65535) {
-      throw new Error('Invalid port number');
+    // Validates the port range too
+    const upstream = parseUpstream(portOrUpstream);
+
+    if (!NGROK_TUNNEL_PROTOCOLS.includes(protocol)) {
+      throw new Error(`Unsupported tunnel protocol: ${protocol}`);
+    }
+    if (upstream.scheme && protocol !== 'http') {
+      throw new Error(`${upstream.scheme}:// upstreams can only be used with http tunnels`);
+    }
+
+    const tls = this.resolveTlsTermination(protocol, options);
+
+    const upstreamOwner = Array.from(this.tunnels.values()).find(
+      (record) => record.upstream.address === upstream.address
+    );
+    if (upstreamOwner && upstreamOwner.name !== name) {
+      const subject = upstream.host === 'localhost' ? `Port ${upstream.port}` : upstream.address;
+      throw new Error(`${subject} is already exposed by tunnel "${upstreamOwner.name}"`);
     }
 
     // Validate environment
     try {
-      await validateNgrokConfig(this.runtime);
+      this.ngrokConfig = await validateNgrokConfig(this.runtime);
     } catch (error: any) {
       throw new Error(`Ngrok environment validation failed: ${error.message}`);
     }
 
+    if (options.basicAuth && options.identity) {
+      throw new Error('Basic auth cannot be combined with an identity policy');
+    }
+    if (options.verifyWebhook && (options.basicAuth || options.identity)) {
+      throw new Error(
+        'Webhook verification cannot be combined with basic auth or an identity policy'
+      );
+    }
+    const basicAuth = this.resolveBasicAuth(protocol, options);
+    const identity = this.resolveIdentityPolicy(protocol, options);
+    const verifyWebhook = this.resolveWebhookVerification(protocol, options);
+    const ipRestriction = this.resolveIpRestriction(options);
+    const headers = this.resolveHeaderRules(protocol, options);
+    const trafficPolicy = this.resolveTrafficPolicy(protocol, options);
+
     // Enforce rate limiting
     const now = Date.now();
     if (this.lastStartTime && now - this.lastStartTime < NgrokService.MIN_TUNNEL_INTERVAL) {
@@ -107,332 +529,784 @@ export class NgrokService extends Service implements ITunnelService {
     }
     this.lastStartTime = Date.now();
 
-    elizaLogger.info(`🚀 Starting ngrok tunnel on port ${port}...`);
+    elizaLogger.info(`🚀 Starting ngrok ${protocol} tunnel "${name}" to ${upstream.address}...`);
+
+    const record: TunnelRecord = existing || {
+      name,
+      upstream,
+      protocol,
+      options,
+      headers,
+      handle: null,
+      url: null,
+      startedAt: null,
+      state: 'idle',
+      reconnectCount: 0,
+      reconnectAttempts: 0,
+      reconnectTimer: null,
+      lastError: null,
+      health: null,
+      metrics: null,
+      publicProbes: 0,
+    };
+    this.clearReconnectTimer(record);
+    record.reconnectCount = 0;
+    record.reconnectAttempts = 0;
+    record.lastError = null;
+    record.upstream = upstream;
+    record.protocol = protocol;
+    record.options = options;
+    record.tls = tls;
+    record.basicAuth = basicAuth;
+    record.identity = identity;
+    record.verifyWebhook = verifyWebhook;
+    record.ipRestriction = ipRestriction;
+    record.headers = headers;
+    record.trafficPolicy = trafficPolicy;
+    record.healthPath = options.healthPath;
+    record.healthExpectedStatus = options.healthExpectedStatus;
+    this.tunnels.set(name, record);
+    this.transition(record, 'starting');
 
     try {
-      const tunnelUrl = await this.attemptStartTunnel(port);
-      this.tunnelUrl = tunnelUrl;
-      this.tunnelPort = port;
-      this.startedAt = new Date();
-      elizaLogger.success(`✅ Ngrok tunnel started: ${tunnelUrl}`);
+      const tunnelUrl = await this.attemptStartTunnel(record);
+      record.url = tunnelUrl;
+      record.startedAt = new Date();
+      elizaLogger.success(`✅ Ngrok tunnel "${name}" started: ${tunnelUrl}`);
+      this.transition(record, 'online');
+      this.startHealthChecks();
+      this.definitions.set(name, { upstream: upstream.address, ...withoutSecrets(options) });
+      await this.saveDefinitions();
       return tunnelUrl;
     } catch (error: any) {
-      elizaLogger.error('Failed to start ngrok tunnel:', error);
+      elizaLogger.error(`Failed to start ngrok tunnel "${name}":`, error);
+      this.transition(record, 'failed', { error: error.message });
+      this.tunnels.delete(name);
       throw error;
     }
   }
 
-  private async attemptStartTunnel(port: number): Promise<string> {
+  private async attemptStartTunnel(record: TunnelRecord): Promise<string> {
     let attempts = 0;
     const maxAttempts = 3;
     const baseDelay = 2000;
 
     while (attempts < maxAttempts) {
       try {
-        return await this.startTunnelInternal(port);
+        return await this.startTunnelInternal(record);
       } catch (error: any) {
         attempts++;
-        
-        if (error.message && (
-          error.message.includes('domain might already be in use') ||
-          error.message.includes('ERR_NGROK_334') ||
-          error.message.includes('already online')
-        )) {
+
+        if (error instanceof DomainInUseError) {
           if (attempts < maxAttempts) {
             elizaLogger.warn(`Domain conflict detected, retrying in ${baseDelay * attempts}ms (attempt ${attempts}/${maxAttempts})`);
             await new Promise((resolve) => setTimeout(resolve, baseDelay * attempts));
-            
-            // Try to stop any existing process just in case
-            if (this.ngrokProcess) {
-              await this.forceKillProcess();
-            }
             continue;
           }
         }
-        
+
         throw error;
       }
     }
-    
+
     throw new Error(`Failed to start tunnel after ${maxAttempts} attempts`);
   }
 
-  private async startTunnelInternal(port: number): Promise<string> {
-    return new Promise((resolve, reject) => {
-      // Clean up any existing process first
-      if (this.ngrokProcess) {
-        this.ngrokProcess.kill();
-        this.ngrokProcess = null;
+  private async startTunnelInternal(record: TunnelRecord): Promise<string> {
+    // Clean up any existing tunnel first
+    if (record.handle) {
+      await record.handle.close();
+      record.handle = null;
+    }
+
+    const handle = await this.backend.open(this.buildTunnelSpec(record));
+    record.handle = handle;
+    record.url = handle.url;
+    record.startedAt = new Date();
+    record.health = null;
+    // Counters restart with every ngrok session
+    record.metrics = null;
+    record.publicProbes = 0;
+    handle.onUnexpectedClose((reason) => this.handleUnexpectedClose(record, handle, reason));
+    return handle.url;
+  }
+
+  private handleUnexpectedClose(record: TunnelRecord, handle: TunnelHandle, reason: string): void {
+    // Ignore stale handles and tunnels that are being stopped on purpose
+    if (record.handle !== handle || record.state !== 'online') return;
+
+    elizaLogger.warn(`Ngrok tunnel "${record.name}" went down: ${reason}`);
+    record.handle = null;
+    record.lastError = reason;
+    this.transition(record, 'reconnecting', { error: reason });
+    this.scheduleReconnect(record);
+  }
+
+  private scheduleReconnect(record: TunnelRecord): void {
+    if (record.reconnectAttempts >= this.ngrokConfig.NGROK_RECONNECT_MAX_ATTEMPTS) {
+      elizaLogger.error(
+        `Giving up on ngrok tunnel "${record.name}" after ${record.reconnectAttempts} reconnect attempts: ${record.lastError}`
+      );
+      this.transition(record, 'failed', { error: record.lastError || undefined });
+      return;
+    }
+
+    record.reconnectAttempts++;
+    const delay = Math.min(
+      NgrokService.RECONNECT_BASE_DELAY * 2 ** (record.reconnectAttempts - 1),
+      NgrokService.RECONNECT_MAX_DELAY
+    );
+    elizaLogger.info(
+      `Reconnecting ngrok tunnel "${record.name}" in ${delay}ms (attempt ${record.reconnectAttempts}/${this.ngrokConfig.NGROK_RECONNECT_MAX_ATTEMPTS})`
+    );
+
+    record.reconnectTimer = setTimeout(async () => {
+      record.reconnectTimer = null;
+      if (record.state !== 'reconnecting' || this.tunnels.get(record.name) !== record) return;
+
+      const previousUrl = record.url;
+      try {
+        const url = await this.startTunnelInternal(record);
+        record.reconnectCount++;
+        record.reconnectAttempts = 0;
+        elizaLogger.success(`✅ Ngrok tunnel "${record.name}" reconnected: ${url}`);
+        this.transition(record, 'online');
+        if (previousUrl && previousUrl !== url) {
+          elizaLogger.warn(
+            `Ngrok tunnel "${record.name}" URL changed from ${previousUrl} to ${url}`
+          );
+          this.emitTunnelEvent(NgrokEventType.TUNNEL_URL_CHANGED, record, record.state, {
+            previousUrl,
+          });
+        }
+      } catch (error: any) {
+        record.lastError = error.message;
+        elizaLogger.warn(`Failed to reconnect ngrok tunnel "${record.name}": ${error.message}`);
+        this.scheduleReconnect(record);
       }
-      
-      const args = ['http', port.toString()];
-      
-      if (this.tunnelConfig.region) args.push('--region', this.tunnelConfig.region);
-      
-      // Check for domain configuration
-      const domain = this.runtime.getSetting('NGROK_DOMAIN') || process.env.NGROK_DOMAIN;
-      const useRandomSubdomain = this.runtime.getSetting('NGROK_USE_RANDOM_SUBDOMAIN') === 'true';
-      
-      if (domain && !useRandomSubdomain) {
-        args.push('--domain', domain);
-        elizaLogger.info(`Using ngrok domain: ${domain}`);
-      } else if (this.tunnelConfig.subdomain && !useRandomSubdomain) {
-        // Only use subdomain if explicitly configured
-        // Note: Subdomains require a paid ngrok account
-        args.push('--subdomain', this.tunnelConfig.subdomain);
-        elizaLogger.info(`Using configured subdomain: ${this.tunnelConfig.subdomain}`);
+    }, delay);
+  }
+
+  private clearReconnectTimer(record: TunnelRecord): void {
+    if (record.reconnectTimer) {
+      clearTimeout(record.reconnectTimer);
+      record.reconnectTimer = null;
+    }
+  }
+
+  private buildTunnelSpec(record: TunnelRecord): TunnelSpec {
+    const spec: TunnelSpec = {
+      name: record.name,
+      upstream: record.upstream,
+      protocol: record.protocol,
+      region: this.tunnelConfig.region,
+      tls: record.tls,
+      basicAuth: record.basicAuth,
+      identity: record.identity,
+      verifyWebhook: record.verifyWebhook,
+      ipRestriction: record.ipRestriction,
+      ...record.headers,
+      trafficPolicy: record.trafficPolicy?.policy,
+    };
+
+    // TCP endpoints get a random address assigned by ngrok
+    if (record.protocol === 'tcp') {
+      return spec;
+    }
+
+    // Check for domain configuration
+    const domain = this.runtime.getSetting('NGROK_DOMAIN') || process.env.NGROK_DOMAIN;
+    const useRandomSubdomain = this.runtime.getSetting('NGROK_USE_RANDOM_SUBDOMAIN') === 'true';
+
+    // A reserved domain can only be bound by one tunnel, so it goes to the default one
+    if (domain && !useRandomSubdomain && record.name === DEFAULT_TUNNEL_NAME) {
+      spec.domain = domain;
+    } else if (this.tunnelConfig.subdomain && !useRandomSubdomain) {
+      // Only use subdomain if explicitly configured
+      spec.subdomain = this.tunnelConfig.subdomain;
+    }
+    // For free accounts or when random subdomain is requested,
+    // don't specify any domain/subdomain - let ngrok generate a random URL
+
+    return spec;
+  }
+
+  private resolveBasicAuth(
+    protocol: NgrokTunnelProtocol,
+    options: NgrokTunnelOptions
+  ): NgrokBasicAuth | undefined {
+    if (protocol !== 'http') {
+      if (options.basicAuth) {
+        throw new Error('Basic auth can only be used with http tunnels');
       }
-      // For free accounts or when random subdomain is requested, 
-      // don't specify any domain/subdomain - let ngrok generate a random URL
+      // NGROK_BASIC_AUTH only guards HTTP tunnels
+      return undefined;
+    }
 
-      this.ngrokProcess = spawn('ngrok', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    if (options.basicAuth) {
+      const result = basicAuthSchema.safeParse(options.basicAuth);
+      if (!result.success) {
+        throw new Error(
+          `Invalid basic auth credentials: ${result.error.errors.map((e) => e.message).join(', ')}`
+        );
+      }
+      return result.data;
+    }
 
-      let errorOccurred = false;
-      let processStarted = false;
+    const setting = this.ngrokConfig.NGROK_BASIC_AUTH;
+    // A tunnel's own access control replaces the default credentials
+    if (!setting || options.identity || options.verifyWebhook) {
+      return undefined;
+    }
+    // Passwords may contain colons, usernames may not
+    const separator = setting.indexOf(':');
+    return { username: setting.slice(0, separator), password: setting.slice(separator + 1) };
+  }
 
-      this.ngrokProcess.on('error', (error) => {
-        errorOccurred = true;
-        elizaLogger.error('Failed to start ngrok:', error);
-        reject(new Error(`Failed to start ngrok: ${error.message}`));
-      });
+  private resolveIdentityPolicy(
+    protocol: NgrokTunnelProtocol,
+    options: NgrokTunnelOptions
+  ): NgrokIdentityPolicy | undefined {
+    if (protocol !== 'http') {
+      if (options.identity) {
+        throw new Error('Identity policies can only be used with http tunnels');
+      }
+      return undefined;
+    }
 
-      this.ngrokProcess.stderr?.on('data', (data) => {
-        const message = data.toString();
-        elizaLogger.error('Ngrok error:', message);
-        
-        if (!errorOccurred) {
-          errorOccurred = true;
-          // Kill the process to clean up
-          if (this.ngrokProcess && !this.ngrokProcess.killed) {
-            this.ngrokProcess.kill();
-          }
-          
-          // Handle specific error cases
-          if (message.includes('invalid port')) {
-            reject(new Error('Invalid port specified'));
-          } else if (message.includes('address already in use')) {
-            reject(new Error('Port is already in use'));
-          } else if (message.includes('ERR_NGROK_15002') || message.includes('Pay-as-you-go')) {
-            // Pay-as-you-go account requires domain
-            if (!domain) {
-              reject(new Error('Pay-as-you-go ngrok account requires NGROK_DOMAIN to be set. Please set NGROK_DOMAIN=your-domain.ngrok-free.app in your .env file'));
-            } else {
-              reject(new Error('Failed to start tunnel with pay-as-you-go account. Ensure your domain is registered at https://dashboard.ngrok.com/domains'));
-            }
-          } else if (message.includes('ERR_NGROK_334') || 
-                     message.includes('already online') ||
-                     message.includes('failed to start tunnel') || 
-                     message.includes('is already bound to another tunnel') ||
-                     message.includes('tunnel session failed')) {
-            // This might happen if the domain is already in use
-            reject(new Error('Failed to start tunnel - domain might already be in use'));
-          } else {
-            reject(new Error(`Ngrok error: ${message}`));
-          }
-        }
-      });
+    if (options.identity) {
+      const result = identityPolicySchema.safeParse(options.identity);
+      if (!result.success) {
+        throw new Error(
+          `Invalid identity policy: ${result.error.errors.map((e) => e.message).join(', ')}`
+        );
+      }
+      return result.data;
+    }
 
-      // Give ngrok more time to start and handle multiple retry attempts
-      let retryCount = 0;
-      const maxRetries = 3;
-      const retryDelay = 2000;
-      
-      const tryFetchUrl = async () => {
-        if (errorOccurred || this.isShuttingDown) {
-          return; // Don't try to fetch URL if we already have an error
-        }
-        
-        try {
-          const url = await this.fetchTunnelUrl();
-          if (url) {
-            processStarted = true;
-            this.tunnelUrl = url;
-            this.tunnelPort = port;
-            this.startedAt = new Date();
-            resolve(url);
-          } else if (retryCount < maxRetries) {
-            retryCount++;
-            elizaLogger.warn(`Retrying to fetch tunnel URL (attempt ${retryCount}/${maxRetries})...`);
-            setTimeout(tryFetchUrl, retryDelay);
-          } else {
-            reject(new Error('Failed to get tunnel URL from ngrok after multiple attempts'));
-          }
-        } catch (error) {
-          if (retryCount < maxRetries && !errorOccurred) {
-            retryCount++;
-            elizaLogger.warn(`Retrying to fetch tunnel URL (attempt ${retryCount}/${maxRetries})...`);
-            setTimeout(tryFetchUrl, retryDelay);
-          } else {
-            reject(error);
-          }
-        }
-      };
-      
-      this.ngrokProcess.on('exit', (code) => {
-        elizaLogger.warn(`Ngrok process exited with code ${code}`);
-        this.ngrokProcess = null;
-        
-        // Only reject if we haven't successfully started
-        if (!processStarted && !errorOccurred) {
-          reject(new Error(`Ngrok process exited unexpectedly with code ${code}`));
-        }
-      });
+    const provider = this.ngrokConfig.NGROK_OAUTH_PROVIDER;
+    // A tunnel's own access control replaces the default identity policy
+    if (!provider || options.basicAuth || options.verifyWebhook) {
+      return undefined;
+    }
+    return {
+      provider,
+      allowEmails: this.ngrokConfig.NGROK_OAUTH_ALLOW_EMAILS,
+      allowDomains: this.ngrokConfig.NGROK_OAUTH_ALLOW_DOMAINS,
+      ...(provider === 'oidc' && {
+        issuerUrl: this.ngrokConfig.NGROK_OIDC_ISSUER_URL,
+        clientId: this.ngrokConfig.NGROK_OIDC_CLIENT_ID,
+        clientSecret: this.ngrokConfig.NGROK_OIDC_CLIENT_SECRET,
+      }),
+    };
+  }
 
-      // Wait a bit for ngrok to start before trying to fetch URL
-      setTimeout(tryFetchUrl, 3000); // Increased from whatever it was before
+  private resolveWebhookVerification(
+    protocol: NgrokTunnelProtocol,
+    options: NgrokTunnelOptions
+  ): NgrokWebhookVerification | undefined {
+    if (protocol !== 'http') {
+      if (options.verifyWebhook) {
+        throw new Error('Webhook verification can only be used with http tunnels');
+      }
+      return undefined;
+    }
+
+    if (options.verifyWebhook) {
+      const result = webhookVerificationSchema.safeParse(options.verifyWebhook);
+      if (!result.success) {
+        throw new Error(
+          `Invalid webhook verification: ${result.error.errors.map((e) => e.message).join(', ')}`
+        );
+      }
+      return result.data;
+    }
+
+    const provider = this.ngrokConfig.NGROK_VERIFY_WEBHOOK_PROVIDER;
+    const secret = this.ngrokConfig.NGROK_VERIFY_WEBHOOK_SECRET;
+    // A tunnel's own access control replaces the default verification
+    if (!provider || !secret || options.basicAuth || options.identity) {
+      return undefined;
+    }
+    return { provider, secret };
+  }
+
+  private resolveHeaderRules(
+    protocol: NgrokTunnelProtocol,
+    options: NgrokTunnelOptions
+  ): TunnelRecord['headers'] {
+    const { requestHeaders, responseHeaders, hostHeader } = options;
+    if (protocol !== 'http') {
+      if (requestHeaders || responseHeaders || hostHeader) {
+        throw new Error('Header rules can only be used with http tunnels');
+      }
+      return {};
+    }
+
+    const results = {
+      'request header rules': headerRulesSchema.optional().safeParse(requestHeaders),
+      'response header rules': headerRulesSchema.optional().safeParse(responseHeaders),
+      'host header': hostHeaderSchema.optional().safeParse(hostHeader),
+    };
+    for (const [subject, result] of Object.entries(results)) {
+      if (!result.success) {
+        throw new Error(
+          `Invalid ${subject}: ${result.error.errors.map((e) => e.message).join(', ')}`
+        );
+      }
+    }
+
+    // A tunnel's own rules replace the default ones for the same direction
+    return {
+      requestHeaders:
+        requestHeaders ||
+        headerRulesFromSettings(
+          this.ngrokConfig.NGROK_REQUEST_HEADER_ADD,
+          this.ngrokConfig.NGROK_REQUEST_HEADER_REMOVE
+        ),
+      responseHeaders:
+        responseHeaders ||
+        headerRulesFromSettings(
+          this.ngrokConfig.NGROK_RESPONSE_HEADER_ADD,
+          this.ngrokConfig.NGROK_RESPONSE_HEADER_REMOVE
+        ),
+      hostHeader: hostHeader || this.ngrokConfig.NGROK_HOST_HEADER,
+    };
+  }
+
+  private resolveIpRestriction(options: NgrokTunnelOptions): NgrokIpRestriction | undefined {
+    const result = ipRestrictionSchema.safeParse({
+      allowCidrs: options.allowCidrs,
+      denyCidrs: options.denyCidrs,
     });
+    if (!result.success) {
+      const problems = result.error.errors.map((e) => {
+        const [list, index] = e.path as [keyof NgrokIpRestriction, number?];
+        const subject = index === undefined ? list : `"${options[list]?.[index]}"`;
+        return `${subject}: ${e.message}`;
+      });
+      throw new Error(`Invalid IP restriction: ${problems.join(', ')}`);
+    }
+
+    // A tunnel's own ranges replace the default ones
+    const allowCidrs = result.data.allowCidrs ?? this.ngrokConfig.NGROK_IP_ALLOW ?? [];
+    const denyCidrs = result.data.denyCidrs ?? this.ngrokConfig.NGROK_IP_DENY ?? [];
+    if (allowCidrs.length === 0 && denyCidrs.length === 0) {
+      return undefined;
+    }
+    return { allowCidrs, denyCidrs };
+  }
+
+  private resolveTrafficPolicy(
+    protocol: NgrokTunnelProtocol,
+    options: NgrokTunnelOptions
+  ): LoadedTrafficPolicy | undefined {
+    if (options.trafficPolicy && options.trafficPolicyFile) {
+      throw new Error('Pass either trafficPolicy or trafficPolicyFile, not both');
+    }
+
+    let source: TrafficPolicySource | undefined;
+    if (options.trafficPolicy) {
+      source = { document: options.trafficPolicy };
+    } else if (options.trafficPolicyFile) {
+      source = { file: options.trafficPolicyFile };
+    } else if (this.ngrokConfig.NGROK_TRAFFIC_POLICY) {
+      source = { document: this.ngrokConfig.NGROK_TRAFFIC_POLICY };
+    } else if (this.ngrokConfig.NGROK_TRAFFIC_POLICY_FILE) {
+      source = { file: this.ngrokConfig.NGROK_TRAFFIC_POLICY_FILE };
+    }
+    if (!source) {
+      return undefined;
+    }
+
+    const loaded = loadTrafficPolicy(source);
+    if (protocol !== 'http') {
+      const httpPhases = NGROK_TRAFFIC_POLICY_PHASES.filter(
+        (phase) => phase.startsWith('on_http_') && loaded.policy[phase]
+      );
+      if (httpPhases.length > 0) {
+        throw new Error(
+          `Traffic policy phases ${httpPhases.join(', ')} can only be used with http tunnels`
+        );
+      }
+    }
+    return loaded;
+  }
+
+  private resolveTlsTermination(
+    protocol: NgrokTunnelProtocol,
+    options: NgrokTunnelOptions
+  ): TunnelSpec['tls'] {
+    if (protocol !== 'tls') {
+      if (options.tlsCertPath || options.tlsKeyPath) {
+        throw new Error('TLS certificates can only be used with tls tunnels');
+      }
+      return undefined;
+    }
+
+    const certPath =
+      options.tlsCertPath ||
+      this.runtime.getSetting('NGROK_TLS_CERT_PATH') ||
+      process.env.NGROK_TLS_CERT_PATH;
+    const keyPath =
+      options.tlsKeyPath ||
+      this.runtime.getSetting('NGROK_TLS_KEY_PATH') ||
+      process.env.NGROK_TLS_KEY_PATH;
+
+    // Without a certificate, TLS passes through and terminates at the local service
+    if (!certPath && !keyPath) {
+      return undefined;
+    }
+    if (!certPath || !keyPath) {
+      throw new Error('Terminating TLS at ngrok requires both a certificate and a key');
+    }
+    for (const path of [certPath, keyPath]) {
+      if (!fs.existsSync(path)) {
+        throw new Error(`TLS file not found: ${path}`);
+      }
+    }
+
+    return { certPath, keyPath };
   }
 
-  async stopTunnel(): Promise<void> {
-    if (!this.isActive() && !this.ngrokProcess) {
-      elizaLogger.warn('No active tunnel to stop');
+  async stopTunnel(nameOrPort: string | number = DEFAULT_TUNNEL_NAME): Promise<void> {
+    const record = this.findTunnel(nameOrPort);
+    await this.forgetDefinition(record?.name ?? nameOrPort);
+    if (record && record.reconnectTimer) {
+      // Stopping a tunnel that is waiting to reconnect just cancels the reconnect
+      this.clearReconnectTimer(record);
+      this.tunnels.delete(record.name);
+      this.transition(record, 'stopped');
+      elizaLogger.info(`Cancelled reconnect of ngrok tunnel "${record.name}"`);
+      return;
+    }
+
+    if (!record || (!this.isRecordActive(record) && !record.handle)) {
+      if (record) {
+        // Drop tunnels that died and exhausted their reconnect attempts
+        this.tunnels.delete(record.name);
+        this.transition(record, 'stopped');
+      }
+      elizaLogger.warn(`No active tunnel "${nameOrPort}" to stop`);
       return;
     }
 
-    this.isShuttingDown = true;
-    elizaLogger.info('🛑 Stopping ngrok tunnel...');
+    this.transition(record, 'stopping');
+    elizaLogger.info(`🛑 Stopping ngrok tunnel "${record.name}"...`);
 
-    if (this.ngrokProcess) {
-      await this.forceKillProcess();
+    if (record.handle) {
+      await record.handle.close();
+      record.handle = null;
     }
 
-    this.cleanup();
-    this.isShuttingDown = false;
+    this.tunnels.delete(record.name);
+    if (this.tunnels.size === 0) {
+      this.stopHealthChecks();
+    }
 
     // Add a small delay to ensure ngrok fully releases resources
     await new Promise((resolve) => setTimeout(resolve, 1000));
 
-    elizaLogger.info('✅ Ngrok tunnel stopped');
-  }
-
-  private async forceKillProcess(): Promise<void> {
-    if (!this.ngrokProcess) return;
-    
-    const process = this.ngrokProcess;
-    const pid = process.pid;
-    
-    // First try SIGTERM
-    process.kill('SIGTERM');
-    
-    // Wait for graceful shutdown
-    await new Promise<void>((resolve) => {
-      let resolved = false;
-      
-      const checkInterval = setInterval(() => {
-        if (!process.killed && process.exitCode === null) {
-          // Still running, try SIGKILL
-          try {
-            process.kill('SIGKILL');
-          } catch (e) {
-            // Process might already be dead
-          }
-        } else {
-          if (!resolved) {
-            resolved = true;
-            clearInterval(checkInterval);
-            clearTimeout(timeout);
-            resolve();
-          }
-        }
-      }, 100);
-      
-      // Timeout after CLEANUP_TIMEOUT
-      const timeout = setTimeout(() => {
-        if (!resolved) {
-          resolved = true;
-          clearInterval(checkInterval);
-          
-          // Last resort: try to kill by PID
-          if (pid) {
-            try {
-              spawn('kill', ['-9', pid.toString()]);
-            } catch (e) {
-              // Ignore errors
-            }
-          }
-          
-          resolve();
-        }
-      }, NgrokService.CLEANUP_TIMEOUT);
+    this.transition(record, 'stopped');
+    elizaLogger.info(`✅ Ngrok tunnel "${record.name}" stopped`);
+  }
+
+  async stopAllTunnels(): Promise<void> {
+    const names = Array.from(this.tunnels.keys());
+    // Keep stopping the others when one tunnel fails to stop
+    const results = await Promise.allSettled(names.map((name) => this.stopTunnel(name)));
+    this.stopHealthChecks();
+
+    const failures = results.flatMap((result, index) =>
+      result.status === 'rejected'
+        ? [`"${names[index]}": ${result.reason?.message ?? result.reason}`]
+        : []
+    );
+    if (failures.length > 0) {
+      throw new Error(`Failed to stop ngrok tunnels ${failures.join(', ')}`);
+    }
+  }
+
+  private async forgetDefinition(nameOrPort: string | number): Promise<void> {
+    if (this.isServiceStopping) return;
+
+    const name =
+      typeof nameOrPort === 'string'
+        ? nameOrPort
+        : Array.from(this.definitions.entries()).find(
+            ([, d]) => (d.upstream ? parseUpstream(d.upstream).port : d.port) === nameOrPort
+          )?.[0];
+    if (name && this.definitions.delete(name)) {
+      await this.saveDefinitions();
+    }
+  }
+
+  private async saveDefinitions(): Promise<void> {
+    try {
+      await this.runtime.setCache(TUNNEL_CACHE_KEY, Object.fromEntries(this.definitions));
+    } catch (error: any) {
+      elizaLogger.warn(`Could not persist ngrok tunnels: ${error.message}`);
+    }
+  }
+
+  async checkTunnelHealth(
+    nameOrPort: string | number = DEFAULT_TUNNEL_NAME
+  ): Promise<NgrokTunnelStatus> {
+    const record = this.findTunnel(nameOrPort);
+    if (!record || !this.isRecordActive(record) || !record.url) {
+      return this.getTunnelStatus(nameOrPort);
+    }
+
+    const result = await probeTunnel({
+      upstream: record.upstream,
+      protocol: record.protocol,
+      url: record.url,
+      path: record.healthPath || this.ngrokConfig.NGROK_HEALTH_CHECK_PATH,
+      expectedStatus: record.healthExpectedStatus || this.ngrokConfig.NGROK_HEALTH_CHECK_STATUS,
+      public: this.ngrokConfig.NGROK_HEALTH_CHECK_PUBLIC,
     });
-    
-    this.ngrokProcess = null;
+    if (result.publicRequest) {
+      record.publicProbes++;
+    }
+
+    if (record.health?.healthy !== false && !result.healthy) {
+      elizaLogger.warn(`Ngrok tunnel "${record.name}" is unhealthy: ${result.error}`);
+    } else if (record.health?.healthy === false && result.healthy) {
+      elizaLogger.info(`Ngrok tunnel "${record.name}" is healthy again`);
+    }
+    record.health = { ...result, checkedAt: new Date() };
+
+    return this.toStatus(record);
+  }
+
+  /**
+   * Reads the tunnel's connection and request counters from its inspector and
+   * returns the updated status. Without an inspector (SDK backend) the status
+   * reports no metrics.
+   */
+  async refreshTunnelMetrics(
+    nameOrPort: string | number = DEFAULT_TUNNEL_NAME
+  ): Promise<NgrokTunnelStatus> {
+    const record = this.findTunnel(nameOrPort);
+    const inspectorAddr = record?.handle?.inspectorAddr;
+    if (!record || !this.isRecordActive(record) || !inspectorAddr) {
+      return this.getTunnelStatus(nameOrPort);
+    }
+
+    try {
+      record.metrics =
+        (await fetchTunnelMetrics(
+          inspectorAddr,
+          record.upstream,
+          record.protocol,
+          record.publicProbes
+        )) ?? record.metrics;
+    } catch (error: any) {
+      // Keep reporting the last known counters
+      elizaLogger.debug(
+        `Could not read metrics for ngrok tunnel "${record.name}": ${error.message}`
+      );
+    }
+
+    return this.toStatus(record);
+  }
+
+  /**
+   * Returns the requests ngrok recorded for an HTTP tunnel, newest first. They
+   * are read from the tunnel's local inspector, which only the CLI backend runs.
+   */
+  async getRecentRequests(filter: NgrokRequestFilter = {}): Promise<NgrokCapturedRequest[]> {
+    const { inspectorAddr } = this.getInspectableTunnel(filter.tunnel ?? DEFAULT_TUNNEL_NAME);
+    return fetchRecentRequests(inspectorAddr, filter);
+  }
+
+  /**
+   * Sends a request captured by the tunnel's inspector to the local service
+   * again, optionally with a different body or headers, and returns the local
+   * response. The replay goes straight to the upstream, not through ngrok.
+   */
+  async replayRequest(id: string, options: NgrokReplayOptions = {}): Promise<NgrokReplayResult> {
+    const { record, inspectorAddr } = this.getInspectableTunnel(
+      options.tunnel ?? DEFAULT_TUNNEL_NAME
+    );
+
+    const captured = await fetchCapturedRequest(inspectorAddr, id);
+    if (!captured) {
+      throw new Error(`No captured request "${id}" on tunnel "${record.name}"`);
+    }
+
+    elizaLogger.info(
+      `Replaying ${captured.method} ${captured.uri} (${id}) against ${record.upstream.address}`
+    );
+    return replayCapturedRequest(record.upstream, captured, options);
+  }
+
+  private getInspectableTunnel(nameOrPort: string | number): {
+    record: TunnelRecord;
+    inspectorAddr: string;
+  } {
+    const record = this.findTunnel(nameOrPort);
+    if (!record || !this.isRecordActive(record)) {
+      throw new Error(`No active tunnel "${nameOrPort}"`);
+    }
+    if (record.protocol !== 'http') {
+      throw new Error(
+        `Traffic inspection is only available for HTTP tunnels, "${record.name}" is ${record.protocol}`
+      );
+    }
+    if (!record.handle?.inspectorAddr) {
+      throw new Error('Traffic inspection requires the ngrok CLI backend (NGROK_BACKEND=cli)');
+    }
+    return { record, inspectorAddr: record.handle.inspectorAddr };
+  }
+
+  private startHealthChecks(): void {
+    const interval = this.ngrokConfig.NGROK_HEALTH_CHECK_INTERVAL;
+    if (this.healthTimer || interval === 0) return;
+
+    this.healthTimer = setInterval(() => {
+      for (const record of this.tunnels.values()) {
+        if (!this.isRecordActive(record)) continue;
+        this.checkTunnelHealth(record.name).catch((error) => {
+          elizaLogger.error(`Health check for ngrok tunnel "${record.name}" failed:`, error);
+        });
+        this.refreshTunnelMetrics(record.name).catch((error) => {
+          elizaLogger.error(`Metrics refresh for ngrok tunnel "${record.name}" failed:`, error);
+        });
+      }
+    }, interval);
+    // Health probes alone should never keep the agent process alive
+    this.healthTimer.unref?.();
+  }
+
+  private stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
   }
 
   getUrl(): string | null {
-    return this.tunnelUrl;
+    return this.tunnels.get(DEFAULT_TUNNEL_NAME)?.url ?? null;
   }
 
   isActive(): boolean {
-    return this.ngrokProcess !== null && !this.ngrokProcess.killed && this.tunnelUrl !== null && !this.isShuttingDown;
+    const record = this.tunnels.get(DEFAULT_TUNNEL_NAME);
+    return !!record && this.isRecordActive(record);
+  }
+
+  getStatus(): NgrokTunnelStatus {
+    return this.getTunnelStatus(DEFAULT_TUNNEL_NAME);
   }
 
-  getStatus(): TunnelStatus {
+  getTunnelStatus(nameOrPort: string | number): NgrokTunnelStatus {
+    const record = this.findTunnel(nameOrPort);
+    if (!record) {
+      return {
+        name: typeof nameOrPort === 'string' ? nameOrPort : DEFAULT_TUNNEL_NAME,
+        state: 'idle',
+        active: false,
+        url: null,
+        port: null,
+        protocol: null,
+        upstream: null,
+        startedAt: null,
+        provider: 'ngrok',
+        reconnectCount: 0,
+        lastError: null,
+        basicAuthUsername: null,
+        identityPolicy: null,
+        webhookVerification: null,
+        ipRestriction: null,
+        trafficPolicyDigest: null,
+        healthy: null,
+        healthError: null,
+        lastCheckedAt: null,
+        lastLatencyMs: null,
+        metrics: null,
+      };
+    }
+
+    return this.toStatus(record);
+  }
+
+  listTunnels(): NgrokTunnelStatus[] {
+    return Array.from(this.tunnels.values()).map((record) => this.toStatus(record));
+  }
+
+  private toStatus(record: TunnelRecord): NgrokTunnelStatus {
+    const active = this.isRecordActive(record);
     return {
-      active: this.isActive(),
-      url: this.tunnelUrl,
-      port: this.tunnelPort,
-      startedAt: this.startedAt,
+      name: record.name,
+      state: record.state,
+      active,
+      url: active ? record.url : null,
+      port: active ? record.upstream.port : null,
+      protocol: active ? record.protocol : null,
+      upstream: active ? record.upstream.address : null,
+      startedAt: active ? record.startedAt : null,
       provider: 'ngrok',
+      reconnectCount: record.reconnectCount,
+      lastError: record.lastError,
+      basicAuthUsername: record.basicAuth?.username ?? null,
+      identityPolicy: record.identity ? describeIdentityPolicy(record.identity) : null,
+      webhookVerification: record.verifyWebhook?.provider ?? null,
+      ipRestriction: record.ipRestriction ?? null,
+      trafficPolicyDigest: record.trafficPolicy?.digest ?? null,
+      healthy: active && record.health ? record.health.healthy : null,
+      healthError: active && record.health ? record.health.error : null,
+      lastCheckedAt: active && record.health ? record.health.checkedAt : null,
+      lastLatencyMs: active && record.health ? record.health.latencyMs : null,
+      metrics: active ? record.metrics : null,
     };
   }
 
-  private cleanup(): void {
-    this.ngrokProcess = null;
-    this.tunnelUrl = null;
-    this.tunnelPort = null;
-    this.startedAt = null;
+  private isRecordActive(record: TunnelRecord): boolean {
+    // The handle can die before its exit is reported, e.g. when the process is killed externally
+    return record.state === 'online' && !!record.handle?.isAlive();
   }
 
-  private async checkNgrokInstalled(): Promise<boolean> {
-    return new Promise((resolve) => {
-      const proc = spawn('which', ['ngrok']);
-      proc.on('exit', (code) => resolve(code === 0));
-      proc.on('error', () => resolve(false));
-    });
+  private transition(
+    record: TunnelRecord,
+    state: Exclude<NgrokTunnelState, 'idle'>,
+    details: { error?: string } = {}
+  ): void {
+    const previousState = record.state;
+    record.state = state;
+    elizaLogger.debug(`Ngrok tunnel "${record.name}": ${previousState} → ${state}`);
+    this.emitTunnelEvent(STATE_EVENTS[state], record, previousState, details);
   }
 
-  private async setAuthToken(token: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const proc = spawn('ngrok', ['config', 'add-authtoken', token]);
-      proc.on('exit', (code) => {
-        if (code === 0) {
-          elizaLogger.info('✅ Ngrok auth token configured');
-          resolve();
-        } else {
-          reject(new Error('Failed to set ngrok auth token'));
-        }
+  private emitTunnelEvent(
+    event: NgrokEventType,
+    record: TunnelRecord,
+    previousState: NgrokTunnelState,
+    details: { error?: string; previousUrl?: string } = {}
+  ): void {
+    const payload: NgrokTunnelEventPayload = {
+      runtime: this.runtime,
+      source: 'ngrok',
+      tunnel: this.toStatus(record),
+      previousState,
+      ...details,
+    };
+
+    // Handlers run detached so a slow listener cannot stall the tunnel lifecycle
+    Promise.resolve()
+      .then(() => this.runtime.emitEvent(event, payload))
+      .catch((error) => {
+        elizaLogger.error(`Failed to emit ${event} for ngrok tunnel "${record.name}":`, error);
       });
-      proc.on('error', reject);
-    });
   }
 
-  private async fetchTunnelUrl(): Promise<string | null> {
-    return new Promise((resolve) => {
-      http
-        .get('http://localhost:4040/api/tunnels', (res) => {
-          let data = '';
-          res.on('data', (chunk) => (data += chunk));
-          res.on('end', () => {
-            try {
-              const tunnels = JSON.parse(data);
-              const httpsTunnel = tunnels.tunnels?.find((t: any) => t.proto === 'https');
-              if (httpsTunnel?.public_url) {
-                resolve(httpsTunnel.public_url);
-              } else {
-                elizaLogger.warn('No HTTPS tunnel found in ngrok response');
-                resolve(null);
-              }
-            } catch (error) {
-              elizaLogger.error('Failed to parse ngrok API response:', error);
-              resolve(null);
-            }
-          });
-        })
-        .on('error', (error) => {
-          elizaLogger.error('Failed to connect to ngrok API:', error);
-          resolve(null);
-        });
-    });
+  private findTunnel(nameOrPort: string | number): TunnelRecord | undefined {
+    if (typeof nameOrPort === 'number') {
+      return this.findTunnelByPort(nameOrPort);
+    }
+    return this.tunnels.get(nameOrPort);
+  }
+
+  private findTunnelByPort(port: number): TunnelRecord | undefined {
+    return Array.from(this.tunnels.values()).find((record) => record.upstream.port === port);
   }
 }
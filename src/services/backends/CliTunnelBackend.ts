@@ -0,0 +1,641 @@
+import { elizaLogger } from '@elizaos/core';
+import { spawn, type ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { BinaryMissingError, classifyNgrokError } from '../../errors';
+import type {
+  NgrokHeaderRules,
+  NgrokIdentityPolicy,
+  NgrokTrafficPolicy,
+  NgrokTrafficPolicyAction,
+  NgrokTunnelProtocol,
+  NgrokUpstream,
+} from '../../types';
+import { findInspectorTunnel } from '../inspector';
+import { ngrokUpstreamAddr } from '../upstream';
+import type {
+  TunnelBackend,
+  TunnelBackendOptions,
+  TunnelHandle,
+  TunnelSpec,
+} from './TunnelBackend';
+
+const CLEANUP_TIMEOUT = 5000; // 5 seconds max for cleanup
+const DEFAULT_INSPECTOR_HOST = '127.0.0.1';
+
+// Written next to every ngrok process this plugin spawns, so processes orphaned by
+// a killed agent can be told apart from ngrok sessions the user started
+interface ProcessMarker {
+  pid: number;
+  // The agent process that spawned ngrok; markers of a live owner are left alone
+  ownerPid: number;
+  tunnel: string;
+  configPath: string;
+  startedAt: string;
+}
+
+/**
+ * Extracts the inspector address from an ngrok JSON log line such as
+ * {"lvl":"info","msg":"starting web service","obj":"web","addr":"127.0.0.1:4040"}
+ */
+export function parseInspectorAddr(line: string): string | null {
+  try {
+    const entry = JSON.parse(line);
+    if (entry?.msg === 'starting web service' && typeof entry.addr === 'string') {
+      return entry.addr;
+    }
+  } catch (e) {
+    // Not a JSON log line
+  }
+  return null;
+}
+
+/**
+ * Builds the `ngrok <protocol> <upstream>` command line for a tunnel. Logs go to
+ * stdout as JSON, which reveals the inspector address ngrok actually bound.
+ */
+export function buildNgrokArgs(
+  spec: TunnelSpec,
+  configPath: string,
+  inspectorAddr: string
+): string[] {
+  const args = [
+    spec.protocol,
+    ngrokUpstreamAddr(spec.upstream),
+    '--config',
+    configPath,
+    '--web-addr',
+    inspectorAddr,
+    '--log',
+    'stdout',
+    '--log-format',
+    'json',
+  ];
+
+  if (spec.region) args.push('--region', spec.region);
+
+  if (spec.tls) {
+    args.push('--crt', spec.tls.certPath, '--key', spec.tls.keyPath);
+  }
+
+  for (const range of spec.ipRestriction?.allowCidrs || []) args.push('--cidr-allow', range);
+  for (const range of spec.ipRestriction?.denyCidrs || []) args.push('--cidr-deny', range);
+
+  if (spec.identity) {
+    args.push(...buildIdentityArgs(spec.identity));
+  }
+
+  args.push(
+    ...buildHeaderArgs('request', spec.requestHeaders),
+    ...buildHeaderArgs('response', spec.responseHeaders)
+  );
+  if (spec.hostHeader) args.push('--host-header', spec.hostHeader);
+
+  if (buildTunnelPolicy(spec)) {
+    args.push('--traffic-policy-file', trafficPolicyPath(configPath, spec.name));
+  }
+
+  if (spec.domain) {
+    args.push('--domain', spec.domain);
+  } else if (spec.subdomain) {
+    args.push('--subdomain', spec.subdomain);
+  }
+
+  return args;
+}
+
+/**
+ * The traffic policy ngrok is started with. Basic auth, OIDC and webhook
+ * secrets are enforced through it rather than passed as flags, since any local
+ * user can read a command line; their rules run before the tunnel's own.
+ */
+export function buildTunnelPolicy(spec: TunnelSpec): NgrokTrafficPolicy | null {
+  const actions: NgrokTrafficPolicyAction[] = [];
+  if (spec.basicAuth) {
+    actions.push({
+      type: 'basic-auth',
+      config: { credentials: [`${spec.basicAuth.username}:${spec.basicAuth.password}`] },
+    });
+  }
+  if (spec.identity?.provider === 'oidc') {
+    actions.push({
+      type: 'openid-connect',
+      config: {
+        issuer_url: spec.identity.issuerUrl,
+        client_id: spec.identity.clientId,
+        client_secret: spec.identity.clientSecret,
+      },
+    });
+  }
+  if (spec.verifyWebhook) {
+    actions.push({
+      type: 'verify-webhook',
+      config: { provider: spec.verifyWebhook.provider, secret: spec.verifyWebhook.secret },
+    });
+  }
+
+  if (actions.length === 0) {
+    return spec.trafficPolicy || null;
+  }
+  return {
+    ...spec.trafficPolicy,
+    on_http_request: [{ actions }, ...(spec.trafficPolicy?.on_http_request || [])],
+  };
+}
+
+// The policy is written next to the private config, where open() puts it
+function trafficPolicyPath(configPath: string, tunnelName: string): string {
+  return path.join(path.dirname(configPath), `policy-${encodeURIComponent(tunnelName)}.json`);
+}
+
+function buildHeaderArgs(
+  direction: 'request' | 'response',
+  rules: NgrokHeaderRules = {}
+): string[] {
+  return [
+    ...Object.entries(rules.add || {}).flatMap(([name, value]) => [
+      `--${direction}-header-add`,
+      `${name}:${value}`,
+    ]),
+    ...(rules.remove || []).flatMap((name) => [`--${direction}-header-remove`, name]),
+  ];
+}
+
+class CliTunnelHandle implements TunnelHandle {
+  private exited = false;
+  private closing = false;
+  private closeListeners: Array<(reason: string) => void> = [];
+
+  constructor(
+    private readonly process: ChildProcess,
+    readonly url: string,
+    readonly inspectorAddr: string
+  ) {
+    process.on('exit', (code, signal) => {
+      this.exited = true;
+      if (this.closing) return;
+
+      const reason = `Ngrok process exited unexpectedly with ${code !== null ? `code ${code}` : `signal ${signal}`}`;
+      this.closeListeners.forEach((listener) => listener(reason));
+    });
+  }
+
+  isAlive(): boolean {
+    return !this.exited && !this.process.killed;
+  }
+
+  async close(): Promise<void> {
+    this.closing = true;
+    await forceKillProcess(this.process);
+  }
+
+  onUnexpectedClose(listener: (reason: string) => void): void {
+    this.closeListeners.push(listener);
+  }
+}
+
+/**
+ * Runs each tunnel as a child `ngrok` CLI process and reads its public URL
+ * from the local inspector API. Processes run against a private, agent-scoped
+ * config file so the user's global ngrok.yml is never read or rewritten.
+ */
+export class CliTunnelBackend implements TunnelBackend {
+  readonly kind = 'cli' as const;
+  // Inspector addresses held by processes this backend spawned
+  private inspectorAddrs = new Set<string>();
+  private configDir: string | null = null;
+  // Stable across restarts, unlike configDir
+  private readonly markerDir: string;
+
+  constructor(private readonly options: TunnelBackendOptions = {}) {
+    this.markerDir = path.join(os.tmpdir(), 'elizaos-ngrok', this.scope);
+  }
+
+  private get scope(): string {
+    return (this.options.agentId || 'agent').replace(/[^a-zA-Z0-9-]/g, '');
+  }
+
+  async initialize(): Promise<void> {
+    // Orphans are found through their markers, so they are cleaned up even when ngrok is gone
+    await this.cleanupOrphanedProcesses();
+
+    const isInstalled = await this.checkNgrokInstalled();
+    if (!isInstalled) {
+      throw new BinaryMissingError();
+    }
+
+    this.ensureConfigFile();
+  }
+
+  async dispose(): Promise<void> {
+    if (!this.configDir) return;
+
+    fs.rmSync(this.configDir, { recursive: true, force: true });
+    elizaLogger.debug(`Removed private ngrok config at ${this.configDir}`);
+    this.configDir = null;
+  }
+
+  /**
+   * Writes the agent's ngrok.yml into a fresh temp directory readable only by
+   * the current user, and returns its path.
+   */
+  ensureConfigFile(): string {
+    if (this.configDir) {
+      return path.join(this.configDir, 'ngrok.yml');
+    }
+
+    this.configDir = fs.mkdtempSync(path.join(os.tmpdir(), `elizaos-ngrok-${this.scope}-`));
+    const configPath = path.join(this.configDir, 'ngrok.yml');
+
+    const lines = ['version: "2"'];
+    if (this.options.authToken) {
+      lines.push(`authtoken: ${JSON.stringify(this.options.authToken)}`);
+    }
+    fs.writeFileSync(configPath, `${lines.join('\n')}\n`, { mode: 0o600 });
+    elizaLogger.debug(`Wrote private ngrok config to ${configPath}`);
+
+    return configPath;
+  }
+
+  /**
+   * Terminates ngrok processes left behind by a previous run of this agent that
+   * was killed before it could stop them. A process is only touched when its
+   * command line still carries the private config path recorded in its marker,
+   * which no ngrok started by the user or by another agent can have.
+   */
+  async cleanupOrphanedProcesses(): Promise<void> {
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(this.markerDir).filter((entry) => entry.endsWith('.json'));
+    } catch (e) {
+      return; // No markers yet
+    }
+
+    for (const entry of entries) {
+      const markerPath = path.join(this.markerDir, entry);
+      let marker: ProcessMarker;
+      try {
+        marker = JSON.parse(fs.readFileSync(markerPath, 'utf8'));
+      } catch (error) {
+        elizaLogger.warn(`Removing unreadable ngrok process marker ${markerPath}`);
+        fs.rmSync(markerPath, { force: true });
+        continue;
+      }
+
+      if (marker.ownerPid !== process.pid && isProcessAlive(marker.ownerPid)) {
+        continue; // Another live instance of this agent still owns it
+      }
+
+      const command = await readProcessCommand(marker.pid);
+      if (command && command.includes('ngrok') && command.includes(marker.configPath)) {
+        elizaLogger.warn(
+          `Terminating orphaned ngrok process ${marker.pid} for tunnel "${marker.tunnel}" (started ${marker.startedAt})`
+        );
+        await terminateProcess(marker.pid);
+      }
+
+      fs.rmSync(markerPath, { force: true });
+      // The orphan's private config still holds the auth token
+      const orphanConfigDir = path.dirname(marker.configPath);
+      if (
+        path.basename(orphanConfigDir).startsWith('elizaos-ngrok-') &&
+        orphanConfigDir !== this.configDir
+      ) {
+        fs.rmSync(orphanConfigDir, { recursive: true, force: true });
+      }
+    }
+  }
+
+  private writeProcessMarker(pid: number, tunnel: string, configPath: string): string {
+    fs.mkdirSync(this.markerDir, { recursive: true, mode: 0o700 });
+    const markerPath = path.join(this.markerDir, `${pid}.json`);
+    const marker: ProcessMarker = {
+      pid,
+      ownerPid: process.pid,
+      tunnel,
+      configPath,
+      startedAt: new Date().toISOString(),
+    };
+    fs.writeFileSync(markerPath, JSON.stringify(marker), { mode: 0o600 });
+    return markerPath;
+  }
+
+  async open(spec: TunnelSpec): Promise<TunnelHandle> {
+    const { upstream, protocol, domain } = spec;
+    const configPath = this.ensureConfigFile();
+    const requestedInspectorAddr = await this.reserveInspectorAddr();
+    const policy = buildTunnelPolicy(spec);
+    if (policy) {
+      // JSON is valid YAML, which is what ngrok reads policy files as
+      fs.writeFileSync(trafficPolicyPath(configPath, spec.name), JSON.stringify(policy, null, 2), {
+        mode: 0o600,
+      });
+    }
+    const args = buildNgrokArgs(spec, configPath, requestedInspectorAddr);
+
+    if (domain) {
+      elizaLogger.info(`Using ngrok domain: ${domain}`);
+    } else if (spec.subdomain) {
+      // Note: Subdomains require a paid ngrok account
+      elizaLogger.info(`Using configured subdomain: ${spec.subdomain}`);
+    }
+
+    return new Promise((resolve, reject) => {
+      const ngrokProcess = spawn('ngrok', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      this.inspectorAddrs.add(requestedInspectorAddr);
+      const markerPath = ngrokProcess.pid
+        ? this.writeProcessMarker(ngrokProcess.pid, spec.name, configPath)
+        : null;
+
+      let errorOccurred = false;
+      let processStarted = false;
+      let inspectorAddr = requestedInspectorAddr;
+
+      let pendingOutput = '';
+      ngrokProcess.stdout?.on('data', (data) => {
+        pendingOutput += data.toString();
+        const lines = pendingOutput.split('\n');
+        pendingOutput = lines.pop() || '';
+        for (const line of lines) {
+          const boundAddr = parseInspectorAddr(line);
+          if (boundAddr) {
+            inspectorAddr = boundAddr;
+            elizaLogger.debug(
+              `Ngrok inspector for tunnel "${spec.name}" listening on ${boundAddr}`
+            );
+          }
+        }
+      });
+
+      const fail = (error: Error) => {
+        errorOccurred = true;
+        if (!ngrokProcess.killed) {
+          ngrokProcess.kill();
+        }
+        reject(error);
+      };
+
+      ngrokProcess.on('error', (error) => {
+        errorOccurred = true;
+        elizaLogger.error('Failed to start ngrok:', error);
+        reject(
+          (error as NodeJS.ErrnoException).code === 'ENOENT'
+            ? new BinaryMissingError()
+            : new Error(`Failed to start ngrok: ${error.message}`)
+        );
+      });
+
+      ngrokProcess.stderr?.on('data', (data) => {
+        const message = data.toString();
+        elizaLogger.error('Ngrok error:', message);
+
+        if (errorOccurred) return;
+
+        if (message.includes('invalid port')) {
+          fail(new Error('Invalid port specified'));
+        } else {
+          fail(classifyNgrokError(message, { domain }));
+        }
+      });
+
+      // Give ngrok more time to start and handle multiple retry attempts
+      let retryCount = 0;
+      const maxRetries = 3;
+      const retryDelay = 2000;
+
+      const tryFetchUrl = async () => {
+        if (errorOccurred) {
+          return; // Don't try to fetch URL if we already have an error
+        }
+
+        try {
+          const url = await this.fetchTunnelUrl(inspectorAddr, upstream, protocol);
+          if (url) {
+            processStarted = true;
+            resolve(new CliTunnelHandle(ngrokProcess, url, inspectorAddr));
+          } else if (retryCount < maxRetries) {
+            retryCount++;
+            elizaLogger.warn(
+              `Retrying to fetch tunnel URL (attempt ${retryCount}/${maxRetries})...`
+            );
+            setTimeout(tryFetchUrl, retryDelay);
+          } else {
+            fail(new Error('Failed to get tunnel URL from ngrok after multiple attempts'));
+          }
+        } catch (error: any) {
+          if (retryCount < maxRetries && !errorOccurred) {
+            retryCount++;
+            elizaLogger.warn(
+              `Retrying to fetch tunnel URL (attempt ${retryCount}/${maxRetries})...`
+            );
+            setTimeout(tryFetchUrl, retryDelay);
+          } else {
+            fail(error);
+          }
+        }
+      };
+
+      ngrokProcess.on('exit', (code) => {
+        elizaLogger.warn(`Ngrok process for tunnel "${spec.name}" exited with code ${code}`);
+        this.inspectorAddrs.delete(requestedInspectorAddr);
+        if (markerPath) fs.rmSync(markerPath, { force: true });
+
+        // Only reject if we haven't successfully started
+        if (!processStarted && !errorOccurred) {
+          errorOccurred = true;
+          reject(new Error(`Ngrok process exited unexpectedly with code ${code}`));
+        }
+      });
+
+      // Wait a bit for ngrok to start before trying to fetch URL
+      setTimeout(tryFetchUrl, 3000);
+    });
+  }
+
+  private async checkNgrokInstalled(): Promise<boolean> {
+    return new Promise((resolve) => {
+      const proc = spawn('which', ['ngrok']);
+      proc.on('exit', (code) => resolve(code === 0));
+      proc.on('error', () => resolve(false));
+    });
+  }
+
+  async reserveInspectorAddr(): Promise<string> {
+    const configured = this.options.inspectAddr;
+    const [host, port] = configured ? configured.split(':') : [DEFAULT_INSPECTOR_HOST];
+
+    // A fixed port can only be used by one process at a time
+    if (port && !this.inspectorAddrs.has(`${host}:${port}`)) {
+      return `${host}:${port}`;
+    }
+    return `${host}:${await findFreePort(host)}`;
+  }
+
+  private async fetchTunnelUrl(
+    inspectorAddr: string,
+    upstream: NgrokUpstream,
+    protocol: NgrokTunnelProtocol
+  ): Promise<string | null> {
+    // Only this process's own inspector is consulted, never another agent's
+    const tunnels = await this.fetchInspectorTunnels(inspectorAddr);
+    const tunnel = tunnels && findInspectorTunnel(tunnels, upstream, protocol);
+    if (tunnel?.public_url) {
+      return tunnel.public_url;
+    }
+
+    elizaLogger.warn(
+      `No ${protocol.toUpperCase()} tunnel for ${upstream.address} found in ngrok response`
+    );
+    return null;
+  }
+
+  private async fetchInspectorTunnels(inspectorAddr: string): Promise<any[] | null> {
+    return new Promise((resolve) => {
+      http
+        .get(`http://${inspectorAddr}/api/tunnels`, (res) => {
+          let data = '';
+          res.on('data', (chunk) => (data += chunk));
+          res.on('end', () => {
+            try {
+              const tunnels = JSON.parse(data);
+              resolve(tunnels.tunnels || []);
+            } catch (error) {
+              elizaLogger.error('Failed to parse ngrok API response:', error);
+              resolve(null);
+            }
+          });
+        })
+        .on('error', (error) => {
+          elizaLogger.error(`Failed to connect to ngrok API at ${inspectorAddr}:`, error);
+          resolve(null);
+        });
+    });
+  }
+}
+
+function buildIdentityArgs(policy: NgrokIdentityPolicy): string[] {
+  const { allowEmails = [], allowDomains = [] } = policy;
+
+  if (policy.provider === 'oidc') {
+    // The agent CLI only takes allowlists for ngrok-hosted OAuth providers
+    if (allowEmails.length > 0 || allowDomains.length > 0) {
+      throw new Error(
+        'OIDC email and domain allowlists require the ngrok SDK backend (NGROK_BACKEND=sdk)'
+      );
+    }
+    // The client secret goes into the tunnel policy
+    return [];
+  }
+
+  return [
+    '--oauth',
+    policy.provider,
+    ...allowEmails.flatMap((email) => ['--oauth-allow-email', email]),
+    ...allowDomains.flatMap((domain) => ['--oauth-allow-domain', domain]),
+  ];
+}
+
+function findFreePort(host: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.unref();
+    server.on('error', reject);
+    server.listen(0, host, () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM means the process exists but belongs to someone else
+    return error.code === 'EPERM';
+  }
+}
+
+function readProcessCommand(pid: number): Promise<string | null> {
+  return new Promise((resolve) => {
+    const proc = spawn('ps', ['-o', 'command=', '-p', pid.toString()]);
+    let output = '';
+    proc.stdout.on('data', (data) => (output += data.toString()));
+    proc.on('exit', (code) => resolve(code === 0 && output.trim() ? output.trim() : null));
+    proc.on('error', () => resolve(null));
+  });
+}
+
+async function terminateProcess(pid: number): Promise<void> {
+  try {
+    process.kill(pid, 'SIGTERM');
+  } catch (e) {
+    return; // Already gone
+  }
+
+  const deadline = Date.now() + CLEANUP_TIMEOUT;
+  while (isProcessAlive(pid) && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+
+  if (isProcessAlive(pid)) {
+    try {
+      process.kill(pid, 'SIGKILL');
+    } catch (e) {
+      // Process might already be dead
+    }
+  }
+}
+
+async function forceKillProcess(process: ChildProcess): Promise<void> {
+  const pid = process.pid;
+
+  // First try SIGTERM
+  process.kill('SIGTERM');
+
+  // Wait for graceful shutdown
+  await new Promise<void>((resolve) => {
+    let resolved = false;
+
+    const checkInterval = setInterval(() => {
+      if (!process.killed && process.exitCode === null) {
+        // Still running, try SIGKILL
+        try {
+          process.kill('SIGKILL');
+        } catch (e) {
+          // Process might already be dead
+        }
+      } else {
+        if (!resolved) {
+          resolved = true;
+          clearInterval(checkInterval);
+          clearTimeout(timeout);
+          resolve();
+        }
+      }
+    }, 100);
+
+    // Timeout after CLEANUP_TIMEOUT
+    const timeout = setTimeout(() => {
+      if (!resolved) {
+        resolved = true;
+        clearInterval(checkInterval);
+
+        // Last resort: try to kill by PID
+        if (pid) {
+          try {
+            spawn('kill', ['-9', pid.toString()]);
+          } catch (e) {
+            // Ignore errors
+          }
+        }
+
+        resolve();
+      }
+    }, CLEANUP_TIMEOUT);
+  });
+}
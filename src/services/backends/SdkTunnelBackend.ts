@@ -0,0 +1,155 @@
+import { elizaLogger } from '@elizaos/core';
+import * as ngrok from '@ngrok/ngrok';
+import * as fs from 'fs';
+import { classifyNgrokError, NgrokError } from '../../errors';
+import type { NgrokIdentityPolicy } from '../../types';
+import { ngrokUpstreamAddr } from '../upstream';
+import type {
+  TunnelBackend,
+  TunnelBackendOptions,
+  TunnelHandle,
+  TunnelSpec,
+} from './TunnelBackend';
+
+class SdkTunnelHandle implements TunnelHandle {
+  readonly inspectorAddr = null;
+  private closed = false;
+
+  constructor(
+    private readonly listener: ngrok.Listener,
+    readonly url: string
+  ) {}
+
+  isAlive(): boolean {
+    return !this.closed;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    await this.listener.close();
+  }
+
+  onUnexpectedClose(): void {
+    // The SDK session reconnects on its own, the listener only ends through close()
+  }
+}
+
+/**
+ * Opens tunnels in-process through the bundled @ngrok/ngrok listener API,
+ * so no ngrok binary, child process or inspector is involved.
+ */
+export class SdkTunnelBackend implements TunnelBackend {
+  readonly kind = 'sdk' as const;
+
+  constructor(private readonly options: TunnelBackendOptions = {}) {}
+
+  async initialize(): Promise<void> {}
+
+  async dispose(): Promise<void> {}
+
+  async open(spec: TunnelSpec): Promise<TunnelHandle> {
+    if (spec.subdomain && !spec.domain) {
+      elizaLogger.warn('Subdomains are not supported by the ngrok SDK backend, using a random URL');
+    }
+    if (spec.region) {
+      elizaLogger.debug('The ngrok SDK backend selects the region automatically');
+    }
+
+    try {
+      const listener = await ngrok.forward({
+        // The SDK takes the same upstream forms as the CLI
+        addr: ngrokUpstreamAddr(spec.upstream),
+        proto: spec.protocol,
+        domain: spec.domain,
+        // The SDK takes the certificate and key as PEM strings
+        ...(spec.tls && {
+          crt: fs.readFileSync(spec.tls.certPath, 'utf8'),
+          key: fs.readFileSync(spec.tls.keyPath, 'utf8'),
+        }),
+        ...(spec.ipRestriction && {
+          ip_restriction_allow_cidrs: spec.ipRestriction.allowCidrs,
+          ip_restriction_deny_cidrs: spec.ipRestriction.denyCidrs,
+        }),
+        ...headerConfig(spec),
+        ...(spec.trafficPolicy && { traffic_policy: JSON.stringify(spec.trafficPolicy) }),
+        ...(spec.basicAuth && {
+          basic_auth: [`${spec.basicAuth.username}:${spec.basicAuth.password}`],
+        }),
+        ...(spec.identity && identityConfig(spec.identity)),
+        ...(spec.verifyWebhook && {
+          verify_webhook_provider: spec.verifyWebhook.provider,
+          verify_webhook_secret: spec.verifyWebhook.secret,
+        }),
+        ...(this.options.authToken
+          ? { authtoken: this.options.authToken }
+          : { authtoken_from_env: true }),
+      });
+
+      const url = listener.url();
+      if (!url) {
+        await listener.close();
+        throw new Error('Failed to get tunnel URL from ngrok');
+      }
+
+      return new SdkTunnelHandle(listener, url);
+    } catch (error: any) {
+      throw translateSdkError(error, spec);
+    }
+  }
+}
+
+function headerConfig(spec: TunnelSpec): ngrok.Config {
+  const lines = (add: Record<string, string> = {}) =>
+    Object.entries(add).map(([name, value]) => `${name}:${value}`);
+
+  const requestHeaderAdd = lines(spec.requestHeaders?.add);
+  const requestHeaderRemove = [...(spec.requestHeaders?.remove || [])];
+  if (spec.hostHeader) {
+    // The SDK has no host header option, so the header is replaced like any other
+    let host = spec.hostHeader;
+    if (host === 'rewrite') {
+      // A Unix socket has no address to send
+      host = spec.upstream.socketPath
+        ? 'localhost'
+        : spec.upstream.address.replace(/^https?:\/\//, '');
+    }
+    requestHeaderRemove.push('host');
+    requestHeaderAdd.push(`host:${host}`);
+  }
+
+  const responseHeaderAdd = lines(spec.responseHeaders?.add);
+  const responseHeaderRemove = spec.responseHeaders?.remove || [];
+
+  // Only HTTP listeners accept header options, so empty ones are left out
+  return {
+    ...(requestHeaderAdd.length > 0 && { request_header_add: requestHeaderAdd }),
+    ...(requestHeaderRemove.length > 0 && { request_header_remove: requestHeaderRemove }),
+    ...(responseHeaderAdd.length > 0 && { response_header_add: responseHeaderAdd }),
+    ...(responseHeaderRemove.length > 0 && { response_header_remove: responseHeaderRemove }),
+  };
+}
+
+function identityConfig(policy: NgrokIdentityPolicy): ngrok.Config {
+  if (policy.provider === 'oidc') {
+    return {
+      oidc_issuer_url: policy.issuerUrl,
+      oidc_client_id: policy.clientId,
+      oidc_client_secret: policy.clientSecret,
+      oidc_allow_emails: policy.allowEmails,
+      oidc_allow_domains: policy.allowDomains,
+    };
+  }
+  return {
+    oauth_provider: policy.provider,
+    oauth_allow_emails: policy.allowEmails,
+    oauth_allow_domains: policy.allowDomains,
+  };
+}
+
+// Map SDK failures onto the same typed errors the CLI backend produces
+function translateSdkError(error: any, spec: TunnelSpec): Error {
+  if (error instanceof NgrokError) return error;
+
+  const message: string = error?.message || String(error);
+  return classifyNgrokError(message, { domain: spec.domain, ngrokCode: error?.errorCode });
+}
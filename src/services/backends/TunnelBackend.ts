@@ -0,0 +1,63 @@
+import type {
+  NgrokBasicAuth,
+  NgrokHeaderRules,
+  NgrokIdentityPolicy,
+  NgrokIpRestriction,
+  NgrokTrafficPolicy,
+  NgrokTunnelProtocol,
+  NgrokUpstream,
+  NgrokWebhookVerification,
+} from '../../types';
+
+export type NgrokBackendKind = 'cli' | 'sdk';
+
+export interface TunnelBackendOptions {
+  authToken?: string;
+  // Scopes per-agent resources such as the CLI's private ngrok config
+  agentId?: string;
+  // CLI only: host[:port] for the ngrok inspector; without a port a free one is picked per process
+  inspectAddr?: string;
+}
+
+// Everything a backend needs to bring a single tunnel online
+export interface TunnelSpec {
+  name: string;
+  upstream: NgrokUpstream;
+  protocol: NgrokTunnelProtocol;
+  region?: string;
+  domain?: string;
+  subdomain?: string;
+  // When set, TLS terminates at ngrok; otherwise TLS tunnels pass through to the local service
+  tls?: {
+    certPath: string;
+    keyPath: string;
+  };
+  ipRestriction?: NgrokIpRestriction;
+  trafficPolicy?: NgrokTrafficPolicy;
+  // HTTP only
+  basicAuth?: NgrokBasicAuth;
+  identity?: NgrokIdentityPolicy;
+  verifyWebhook?: NgrokWebhookVerification;
+  requestHeaders?: NgrokHeaderRules;
+  responseHeaders?: NgrokHeaderRules;
+  // "rewrite" sends the upstream address as the Host header
+  hostHeader?: string;
+}
+
+export interface TunnelHandle {
+  readonly url: string;
+  // host:port of the local ngrok inspector, null when the backend has none
+  readonly inspectorAddr: string | null;
+  isAlive(): boolean;
+  close(): Promise<void>;
+  // Called when the tunnel goes down without close() having been called
+  onUnexpectedClose(listener: (reason: string) => void): void;
+}
+
+export interface TunnelBackend {
+  readonly kind: NgrokBackendKind;
+  initialize(): Promise<void>;
+  open(spec: TunnelSpec): Promise<TunnelHandle>;
+  // Releases resources held by the backend once all of its tunnels are closed
+  dispose(): Promise<void>;
+}
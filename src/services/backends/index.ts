@@ -0,0 +1,19 @@
+import { CliTunnelBackend } from './CliTunnelBackend';
+import { SdkTunnelBackend } from './SdkTunnelBackend';
+import type { NgrokBackendKind, TunnelBackend, TunnelBackendOptions } from './TunnelBackend';
+
+export function createTunnelBackend(
+  kind: NgrokBackendKind,
+  options: TunnelBackendOptions = {}
+): TunnelBackend {
+  return kind === 'sdk' ? new SdkTunnelBackend(options) : new CliTunnelBackend(options);
+}
+
+export { CliTunnelBackend, SdkTunnelBackend };
+export type {
+  NgrokBackendKind,
+  TunnelBackend,
+  TunnelBackendOptions,
+  TunnelHandle,
+  TunnelSpec,
+} from './TunnelBackend';
@@ -0,0 +1,154 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import type { NgrokTunnelProtocol, NgrokUpstream } from '../types';
+import { upstreamTarget } from './upstream';
+
+const PROBE_TIMEOUT = 5000;
+// Sent with every probe request so captured traffic and metrics can leave probes out
+export const HEALTH_PROBE_HEADER = 'x-elizaos-health-probe';
+
+export interface HealthProbeTarget {
+  upstream: NgrokUpstream;
+  protocol: NgrokTunnelProtocol;
+  url: string;
+  // HTTP tunnels only
+  path?: string;
+  expectedStatus?: number;
+  // Also go through ngrok to the public endpoint, which counts against the plan's request quota
+  public?: boolean;
+}
+
+export interface HealthProbeResult {
+  healthy: boolean;
+  latencyMs: number | null;
+  error: string | null;
+  // Whether an HTTP request reached ngrok and was counted in its metrics
+  publicRequest: boolean;
+}
+
+/**
+ * Checks that the upstream answers, requesting the health path of HTTP
+ * upstreams directly. Public probes also check that the public endpoint
+ * reaches it through ngrok, and measure latency there.
+ */
+export async function probeTunnel(target: HealthProbeTarget): Promise<HealthProbeResult> {
+  const { upstream } = target;
+  const subject =
+    upstream.host === 'localhost' ? `Local port ${upstream.port}` : `Upstream ${upstream.address}`;
+
+  let startedAt = Date.now();
+  try {
+    if (target.protocol === 'http') {
+      const status = await probeHttp(upstream.scheme === 'https', {
+        ...upstreamTarget(upstream),
+        // Like ngrok, trust whatever certificate an https:// upstream presents
+        ...(upstream.scheme === 'https' && { rejectUnauthorized: false }),
+        path: target.path || '/',
+      });
+      const error = statusError(status, target.expectedStatus);
+      if (error) {
+        return {
+          healthy: false,
+          latencyMs: null,
+          error: `${subject} returned ${error}`,
+          publicRequest: false,
+        };
+      }
+    } else {
+      await probeConnect(upstreamTarget(upstream));
+    }
+  } catch (error: any) {
+    return {
+      healthy: false,
+      latencyMs: null,
+      error: `${subject} is unreachable: ${error.message}`,
+      publicRequest: false,
+    };
+  }
+
+  if (!target.public) {
+    return { healthy: true, latencyMs: Date.now() - startedAt, error: null, publicRequest: false };
+  }
+
+  startedAt = Date.now();
+  try {
+    if (target.protocol === 'http') {
+      const url = new URL(target.path || '/', target.url);
+      const status = await probeHttp(url.protocol === 'https:', {
+        hostname: url.hostname,
+        port: url.port || undefined,
+        path: `${url.pathname}${url.search}`,
+        // Skip the interstitial page ngrok serves to browsers on free plans
+        headers: { 'ngrok-skip-browser-warning': 'true' },
+      });
+      const error = statusError(status, target.expectedStatus);
+      return {
+        healthy: !error,
+        latencyMs: Date.now() - startedAt,
+        error: error ? `Public URL returned ${error}` : null,
+        publicRequest: true,
+      };
+    }
+
+    // TCP and TLS endpoints are published as proto://host:port
+    const { hostname, port } = new URL(target.url);
+    await probeConnect({ host: hostname, port: parseInt(port, 10) });
+    return { healthy: true, latencyMs: Date.now() - startedAt, error: null, publicRequest: false };
+  } catch (error: any) {
+    return {
+      healthy: false,
+      latencyMs: null,
+      error: `Public endpoint is unreachable: ${error.message}`,
+      publicRequest: false,
+    };
+  }
+}
+
+// Without an expected status anything below 500 counts as healthy
+function statusError(status: number, expectedStatus?: number): string | null {
+  const healthy = expectedStatus ? status === expectedStatus : status < 500;
+  if (healthy) return null;
+  return `HTTP ${status}${expectedStatus ? `, expected ${expectedStatus}` : ''}`;
+}
+
+function probeConnect(
+  target: { host: string; port: number } | { socketPath: string }
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect('socketPath' in target ? { path: target.socketPath } : target);
+    socket.setTimeout(PROBE_TIMEOUT);
+    socket.once('connect', () => {
+      socket.destroy();
+      resolve();
+    });
+    socket.once('timeout', () => {
+      socket.destroy();
+      reject(new Error('connection timed out'));
+    });
+    socket.once('error', (error) => {
+      socket.destroy();
+      reject(error);
+    });
+  });
+}
+
+function probeHttp(secure: boolean, options: https.RequestOptions): Promise<number> {
+  const client = secure ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = client.get(
+      {
+        ...options,
+        headers: { ...options.headers, [HEALTH_PROBE_HEADER]: '1' },
+        timeout: PROBE_TIMEOUT,
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode || 0);
+      }
+    );
+    req.on('timeout', () => req.destroy(new Error('request timed out')));
+    req.on('error', reject);
+  });
+}
@@ -0,0 +1,330 @@
+import * as http from 'http';
+import * as https from 'https';
+import type {
+  NgrokCapturedRequest,
+  NgrokReplayOptions,
+  NgrokReplayResult,
+  NgrokRequestFilter,
+  NgrokTunnelMetrics,
+  NgrokTunnelProtocol,
+  NgrokUpstream,
+} from '../types';
+import { HEALTH_PROBE_HEADER } from './health';
+import { upstreamTarget } from './upstream';
+
+const INSPECTOR_TIMEOUT = 5000;
+const REPLAY_TIMEOUT = 30000;
+// Recomputed or meaningless when the request is sent again
+const HOP_BY_HOP_HEADERS = new Set([
+  'connection',
+  'content-length',
+  'keep-alive',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+]);
+// The inspector only keeps the most recent requests in memory
+const INSPECTOR_FETCH_LIMIT = 100;
+export const MAX_BODY_LENGTH = 2048;
+
+/**
+ * Reads the requests captured by an ngrok agent's inspector, newest first,
+ * filtered by status and path.
+ */
+export async function fetchRecentRequests(
+  inspectorAddr: string,
+  filter: NgrokRequestFilter = {}
+): Promise<NgrokCapturedRequest[]> {
+  const { limit = 20, status, path } = filter;
+  const response = await inspectorRequest(
+    inspectorAddr,
+    'GET',
+    `/api/requests/http?limit=${INSPECTOR_FETCH_LIMIT}`
+  );
+
+  return (response?.requests || [])
+    .map(parseCapturedRequest)
+    .filter((request: NgrokCapturedRequest) => !isHealthProbe(request))
+    .filter((request: NgrokCapturedRequest) => matchesStatus(request.status, status))
+    .filter((request: NgrokCapturedRequest) => !path || request.path.startsWith(path))
+    .slice(0, limit);
+}
+
+/**
+ * Finds the entry for a local port in an inspector's /api/tunnels listing.
+ */
+export function findInspectorTunnel(
+  tunnels: any[],
+  upstream: NgrokUpstream,
+  protocol: NgrokTunnelProtocol
+): any {
+  // HTTP tunnels are published as https://, TCP and TLS tunnels as tcp:// and tls://
+  const publicProto = protocol === 'http' ? 'https' : protocol;
+  // ngrok reports the upstream as http://localhost:3000, localhost:5432 or unix:/run/app.sock
+  const addr = upstream.socketPath
+    ? `unix:${upstream.socketPath}`
+    : upstream.address.replace(/^https?:\/\//, '');
+  return tunnels.find(
+    (t: any) =>
+      t.proto === publicProto &&
+      typeof t.config?.addr === 'string' &&
+      t.config.addr.replace(/^https?:\/\//, '') === addr
+  );
+}
+
+/**
+ * Reads the connection and request counters ngrok keeps for a tunnel, or null
+ * when the inspector does not list it. The given number of health probes is
+ * taken off the request total; ngrok's rates still include them.
+ */
+export async function fetchTunnelMetrics(
+  inspectorAddr: string,
+  upstream: NgrokUpstream,
+  protocol: NgrokTunnelProtocol,
+  healthProbes = 0
+): Promise<NgrokTunnelMetrics | null> {
+  const response = await inspectorRequest(inspectorAddr, 'GET', '/api/tunnels');
+  const metrics = findInspectorTunnel(response?.tunnels || [], upstream, protocol)?.metrics;
+  if (!metrics) return null;
+
+  const conns = metrics.conns || {};
+  const requests = metrics.http;
+  return {
+    connections: {
+      total: conns.count || 0,
+      open: conns.gauge || 0,
+      rate1m: conns.rate1 || 0,
+      rate5m: conns.rate5 || 0,
+      rate15m: conns.rate15 || 0,
+    },
+    requests:
+      protocol === 'http' && requests
+        ? {
+            total: Math.max((requests.count || 0) - healthProbes, 0),
+            rate1m: requests.rate1 || 0,
+            rate5m: requests.rate5 || 0,
+            rate15m: requests.rate15 || 0,
+            // ngrok reports percentiles in nanoseconds
+            p50Ms: Math.round((requests.p50 || 0) / 1e6),
+            p90Ms: Math.round((requests.p90 || 0) / 1e6),
+          }
+        : null,
+    updatedAt: new Date(),
+  };
+}
+
+// The request exactly as captured, with its full body
+export interface CapturedRequestMessage {
+  id: string;
+  method: string;
+  uri: string;
+  headers: Record<string, string[]>;
+  body: Buffer;
+}
+
+/**
+ * Reads one captured request with its complete body, or null when the
+ * inspector no longer holds it.
+ */
+export async function fetchCapturedRequest(
+  inspectorAddr: string,
+  id: string
+): Promise<CapturedRequestMessage | null> {
+  const entry = await inspectorRequest(
+    inspectorAddr,
+    'GET',
+    `/api/requests/http/${encodeURIComponent(id)}`
+  );
+  if (!entry) return null;
+
+  return {
+    id: entry.id,
+    method: entry.request?.method || 'GET',
+    uri: entry.request?.uri || '/',
+    headers: entry.request?.headers || {},
+    body: rawBody(entry.request?.raw),
+  };
+}
+
+/**
+ * Sends a captured request straight to the upstream, bypassing ngrok, and
+ * returns its response.
+ */
+export function replayCapturedRequest(
+  upstream: NgrokUpstream,
+  captured: CapturedRequestMessage,
+  options: Pick<NgrokReplayOptions, 'modifiedBody' | 'modifiedHeaders'> = {}
+): Promise<NgrokReplayResult> {
+  const headers: Record<string, string | string[]> = {};
+  for (const [name, values] of Object.entries(captured.headers)) {
+    if (!HOP_BY_HOP_HEADERS.has(name.toLowerCase())) {
+      headers[name] = values;
+    }
+  }
+  for (const [name, value] of Object.entries(options.modifiedHeaders || {})) {
+    for (const existing of Object.keys(headers)) {
+      if (existing.toLowerCase() === name.toLowerCase()) delete headers[existing];
+    }
+    headers[name] = value;
+  }
+
+  const { modifiedBody } = options;
+  const body =
+    modifiedBody === undefined
+      ? captured.body
+      : Buffer.from(typeof modifiedBody === 'string' ? modifiedBody : JSON.stringify(modifiedBody));
+  headers['Content-Length'] = body.length.toString();
+
+  const startedAt = Date.now();
+  return new Promise((resolve, reject) => {
+    const requestOptions: https.RequestOptions = {
+      ...upstreamTarget(upstream),
+      // Like ngrok, trust whatever certificate an https:// upstream presents
+      ...(upstream.scheme === 'https' && { rejectUnauthorized: false }),
+      method: captured.method,
+      path: captured.uri,
+      headers,
+      timeout: REPLAY_TIMEOUT,
+    };
+    const onResponse = (res: http.IncomingMessage) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk) => chunks.push(chunk));
+      res.on('end', () => {
+        const responseBody = truncate(Buffer.concat(chunks).toString('utf8'));
+        resolve({
+          requestId: captured.id,
+          method: captured.method,
+          path: captured.uri.split('?')[0],
+          status: res.statusCode || 0,
+          durationMs: Date.now() - startedAt,
+          responseHeaders: toHeaderLists(res.headers),
+          responseBody: responseBody.body,
+          responseBodyTruncated: responseBody.truncated,
+          modified: modifiedBody !== undefined || !!options.modifiedHeaders,
+        });
+      });
+    };
+    const req =
+      upstream.scheme === 'https'
+        ? https.request(requestOptions, onResponse)
+        : http.request(requestOptions, onResponse);
+    req.on('timeout', () => req.destroy(new Error(`Upstream ${upstream.address} did not respond`)));
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+export function inspectorRequest(
+  inspectorAddr: string,
+  method: string,
+  path: string
+): Promise<any> {
+  const [host, port] = inspectorAddr.split(':');
+
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      {
+        host,
+        port: parseInt(port, 10),
+        method,
+        path,
+        timeout: INSPECTOR_TIMEOUT,
+      },
+      (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => {
+          if (res.statusCode === 404) {
+            resolve(null);
+            return;
+          }
+          if (!res.statusCode || res.statusCode >= 400) {
+            reject(
+              new Error(`Ngrok inspector returned HTTP ${res.statusCode} for ${method} ${path}`)
+            );
+            return;
+          }
+          try {
+            resolve(data ? JSON.parse(data) : null);
+          } catch (error) {
+            reject(new Error(`Invalid response from ngrok inspector for ${method} ${path}`));
+          }
+        });
+      }
+    );
+    req.on('timeout', () => req.destroy(new Error('Ngrok inspector request timed out')));
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+function parseCapturedRequest(entry: any): NgrokCapturedRequest {
+  const requestBody = extractBody(entry.request?.raw);
+  const responseBody = extractBody(entry.response?.raw);
+  const uri: string = entry.request?.uri || entry.uri || '/';
+
+  return {
+    id: entry.id,
+    method: entry.request?.method || 'GET',
+    path: uri.split('?')[0],
+    uri,
+    status: entry.response?.status_code ?? null,
+    // ngrok reports durations in nanoseconds
+    durationMs: typeof entry.duration === 'number' ? Math.round(entry.duration / 1e6) : null,
+    startedAt: new Date(entry.start),
+    remoteAddr: entry.remote_addr || null,
+    requestHeaders: entry.request?.headers || {},
+    responseHeaders: entry.response?.headers || {},
+    requestBody: requestBody.body,
+    requestBodyTruncated: requestBody.truncated,
+    responseBody: responseBody.body,
+    responseBodyTruncated: responseBody.truncated,
+  };
+}
+
+// `raw` holds the whole base64-encoded HTTP message; the body follows the blank line
+function rawBody(raw: string | undefined): Buffer {
+  if (!raw) return Buffer.alloc(0);
+
+  const message = Buffer.from(raw, 'base64');
+  const separator = message.indexOf('\r\n\r\n');
+  return separator === -1 ? Buffer.alloc(0) : message.subarray(separator + 4);
+}
+
+function extractBody(raw: string | undefined): { body: string; truncated: boolean } {
+  return truncate(rawBody(raw).toString('utf8'));
+}
+
+function truncate(body: string): { body: string; truncated: boolean } {
+  return body.length > MAX_BODY_LENGTH
+    ? { body: body.slice(0, MAX_BODY_LENGTH), truncated: true }
+    : { body, truncated: false };
+}
+
+function toHeaderLists(headers: http.IncomingHttpHeaders): Record<string, string[]> {
+  const lists: Record<string, string[]> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (value !== undefined) {
+      lists[name] = Array.isArray(value) ? value : [value];
+    }
+  }
+  return lists;
+}
+
+// ngrok canonicalizes header names, such as X-Elizaos-Health-Probe
+function isHealthProbe(request: NgrokCapturedRequest): boolean {
+  return Object.keys(request.requestHeaders).some(
+    (name) => name.toLowerCase() === HEALTH_PROBE_HEADER
+  );
+}
+
+function matchesStatus(actual: number | null, expected: NgrokRequestFilter['status']): boolean {
+  if (expected === undefined) return true;
+  if (actual === null) return false;
+  if (typeof expected === 'number') return actual === expected;
+
+  // Status classes such as "4xx"
+  return Math.floor(actual / 100) === parseInt(expected[0], 10);
+}
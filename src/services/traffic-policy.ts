@@ -0,0 +1,59 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { trafficPolicySchema } from '../environment';
+import type { NgrokTrafficPolicy } from '../types';
+
+export interface LoadedTrafficPolicy {
+  policy: NgrokTrafficPolicy;
+  // "sha256:<hex>" of the validated policy, the same for equivalent YAML and JSON documents
+  digest: string;
+}
+
+export type TrafficPolicySource = { document: string | NgrokTrafficPolicy } | { file: string };
+
+/**
+ * Reads a traffic policy from an inline document or a file and checks its
+ * structure, so that a broken policy fails before ngrok is started.
+ */
+export function loadTrafficPolicy(source: TrafficPolicySource): LoadedTrafficPolicy {
+  let document: unknown;
+  if ('file' in source) {
+    if (!fs.existsSync(source.file)) {
+      throw new Error(`Traffic policy file not found: ${source.file}`);
+    }
+    document = parseDocument(fs.readFileSync(source.file, 'utf8'), source.file);
+  } else {
+    document =
+      typeof source.document === 'string'
+        ? parseDocument(source.document, 'inline traffic policy')
+        : source.document;
+  }
+
+  const result = trafficPolicySchema.safeParse(document);
+  if (!result.success) {
+    const problems = result.error.errors.map((e) =>
+      e.path.length > 0 ? `${e.path.join('.')}: ${e.message}` : e.message
+    );
+    throw new Error(`Invalid traffic policy: ${problems.join(', ')}`);
+  }
+
+  const policy = result.data;
+  if (!Object.values(policy).some((rules) => rules && rules.length > 0)) {
+    throw new Error('Invalid traffic policy: it has no rules');
+  }
+
+  return {
+    policy,
+    digest: `sha256:${createHash('sha256').update(JSON.stringify(policy)).digest('hex')}`,
+  };
+}
+
+// YAML is a superset of JSON, so one parser reads both
+function parseDocument(text: string, origin: string): unknown {
+  try {
+    return parseYaml(text);
+  } catch (error: any) {
+    throw new Error(`Could not parse ${origin} as YAML or JSON: ${error.message}`);
+  }
+}
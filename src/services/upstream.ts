@@ -0,0 +1,106 @@
+import type { NgrokUpstream } from '../types';
+
+const ADDRESS_FORMATS = 'expected a port, host:port, http://host:port or unix:///path';
+
+const SCHEMES: Record<string, NgrokUpstream['scheme']> = {
+  'tcp:': null,
+  'http:': 'http',
+  'https:': 'https',
+};
+
+const DEFAULT_PORTS = { http: 80, https: 443 };
+
+/**
+ * Parses where a tunnel should forward to. A bare port is a service on this
+ * machine, as startTunnel(port) has always meant.
+ */
+export function parseUpstream(input: number | string): NgrokUpstream {
+  if (typeof input === 'number' || /^\d+$/.test(input.trim())) {
+    const port = Number(input);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error('Invalid port number');
+    }
+    return {
+      address: `localhost:${port}`,
+      host: 'localhost',
+      port,
+      scheme: null,
+      socketPath: null,
+    };
+  }
+
+  const value = input.trim();
+  const invalid = (reason = ADDRESS_FORMATS) =>
+    new Error(`Invalid upstream address "${value}": ${reason}`);
+
+  if (value.startsWith('unix:')) {
+    // unix:///run/app.sock, or unix:/run/app.sock as ngrok writes it
+    const match = value.match(/^unix:(?:\/\/)?(\/[^/?#][^?#]*)$/);
+    if (!match) {
+      throw invalid('Unix sockets need an absolute path, such as unix:///run/app.sock');
+    }
+    const socketPath = match[1];
+    return { address: `unix://${socketPath}`, host: null, port: null, scheme: null, socketPath };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `tcp://${value}`);
+  } catch {
+    throw invalid();
+  }
+
+  if (!(url.protocol in SCHEMES)) {
+    throw invalid(`unsupported scheme ${url.protocol}//`);
+  }
+  const scheme = SCHEMES[url.protocol];
+  if ((url.pathname !== '/' && url.pathname !== '') || url.search || url.username) {
+    throw invalid('paths, queries and credentials are not supported');
+  }
+  if (!url.hostname) {
+    throw invalid();
+  }
+
+  // URL drops default ports, which only schemes imply
+  const port = url.port ? Number(url.port) : scheme ? DEFAULT_PORTS[scheme] : NaN;
+  if (isNaN(port)) {
+    throw invalid('a port is required');
+  }
+  if (port < 1) {
+    throw new Error('Invalid port number');
+  }
+
+  // IPv6 hosts keep their brackets in the address only
+  const host = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  return {
+    address: `${scheme ? `${scheme}://` : ''}${url.hostname}:${port}`,
+    host,
+    port,
+    scheme,
+    socketPath: null,
+  };
+}
+
+// The form ngrok takes as an upstream, a bare port for services on this machine
+export function ngrokUpstreamAddr(upstream: NgrokUpstream): string {
+  if (upstream.socketPath) {
+    return `unix:${upstream.socketPath}`;
+  }
+  return upstream.host === 'localhost' && !upstream.scheme ? `${upstream.port}` : upstream.address;
+}
+
+/**
+ * Where to connect to reach the upstream directly, bypassing ngrok. Services
+ * on this machine are reached over 127.0.0.1 as they always have been.
+ */
+export function upstreamTarget(
+  upstream: NgrokUpstream
+): { host: string; port: number } | { socketPath: string } {
+  if (upstream.socketPath) {
+    return { socketPath: upstream.socketPath };
+  }
+  return {
+    host: upstream.host === 'localhost' ? '127.0.0.1' : (upstream.host as string),
+    port: upstream.port as number,
+  };
+}
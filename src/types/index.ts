@@ -0,0 +1,283 @@
+import type { EventPayload, TunnelStatus } from '@elizaos/core';
+
+export const DEFAULT_TUNNEL_NAME = 'default';
+
+export const NGROK_TUNNEL_PROTOCOLS = ['http', 'tcp', 'tls'] as const;
+
+export type NgrokTunnelProtocol = (typeof NGROK_TUNNEL_PROTOCOLS)[number];
+
+// idle → starting → online ⇄ reconnecting → stopping → stopped, or failed when
+// the tunnel cannot be started or reconnected
+export const NGROK_TUNNEL_STATES = [
+  'idle',
+  'starting',
+  'online',
+  'reconnecting',
+  'stopping',
+  'stopped',
+  'failed',
+] as const;
+
+export type NgrokTunnelState = (typeof NGROK_TUNNEL_STATES)[number];
+
+// Identity providers ngrok hosts an OAuth application for
+export const NGROK_OAUTH_PROVIDERS = [
+  'google',
+  'github',
+  'gitlab',
+  'microsoft',
+  'linkedin',
+  'facebook',
+  'twitch',
+  'amazon',
+] as const;
+
+export type NgrokOAuthProvider = (typeof NGROK_OAUTH_PROVIDERS)[number];
+
+// Webhook senders whose signatures ngrok can verify
+export const NGROK_WEBHOOK_PROVIDERS = [
+  'github',
+  'gitlab',
+  'stripe',
+  'slack',
+  'twilio',
+  'shopify',
+  'sendgrid',
+  'zoom',
+] as const;
+
+export type NgrokWebhookProvider = (typeof NGROK_WEBHOOK_PROVIDERS)[number];
+
+// Points in a connection's life where traffic policy rules run
+export const NGROK_TRAFFIC_POLICY_PHASES = [
+  'on_tcp_connect',
+  'on_http_request',
+  'on_http_response',
+] as const;
+
+export type NgrokTrafficPolicyPhase = (typeof NGROK_TRAFFIC_POLICY_PHASES)[number];
+
+export interface NgrokTunnelOptions {
+  // Registry key for the tunnel; defaults to "default"
+  name?: string;
+  // Defaults to "http"; "tcp" exposes raw TCP services such as databases or SSH
+  protocol?: NgrokTunnelProtocol;
+  // TLS tunnels only: terminate at ngrok with this PEM certificate/key pair instead of
+  // passing encrypted traffic through to the local service
+  tlsCertPath?: string;
+  tlsKeyPath?: string;
+  // HTTP tunnels only: require these credentials for every request; defaults to NGROK_BASIC_AUTH
+  basicAuth?: NgrokBasicAuth;
+  // HTTP tunnels only: require visitors to sign in; defaults to the NGROK_OAUTH_* settings
+  identity?: NgrokIdentityPolicy;
+  // HTTP tunnels only: reject requests without a valid signature from this sender before they
+  // reach the local service; defaults to the NGROK_VERIFY_WEBHOOK_* settings
+  verifyWebhook?: NgrokWebhookVerification;
+  // HTTP tunnels only: headers ngrok adds or removes on the way to the local service and back;
+  // default to the NGROK_REQUEST_HEADER_* and NGROK_RESPONSE_HEADER_* settings
+  requestHeaders?: NgrokHeaderRules;
+  responseHeaders?: NgrokHeaderRules;
+  // HTTP tunnels only: Host header sent to the local service, "rewrite" for the local address;
+  // defaults to NGROK_HOST_HEADER
+  hostHeader?: string;
+  // Only let these client networks in (CIDRs such as "192.0.2.0/24"); default to
+  // NGROK_IP_ALLOW and NGROK_IP_DENY. Denied ranges win over allowed ones
+  allowCidrs?: string[];
+  denyCidrs?: string[];
+  // Traffic policy applied at the ngrok edge, as a YAML or JSON document or an object; defaults
+  // to NGROK_TRAFFIC_POLICY
+  trafficPolicy?: string | NgrokTrafficPolicy;
+  // YAML or JSON traffic policy file, instead of trafficPolicy; defaults to NGROK_TRAFFIC_POLICY_FILE
+  trafficPolicyFile?: string;
+  // HTTP tunnels only: path and status the health probe expects from the public URL
+  healthPath?: string;
+  healthExpectedStatus?: number;
+}
+
+// Where a tunnel forwards traffic: a TCP address or a Unix domain socket
+export interface NgrokUpstream {
+  // "localhost:3000", "db:5432", "http://printer.lan:8080" or "unix:///run/app.sock"
+  address: string;
+  // null for Unix sockets
+  host: string | null;
+  port: number | null;
+  // Set when the address names the local service's scheme; HTTP tunnels only
+  scheme: 'http' | 'https' | null;
+  socketPath: string | null;
+}
+
+export interface NgrokBasicAuth {
+  username: string;
+  // 8 to 128 characters
+  password: string;
+}
+
+export interface NgrokIdentityPolicy {
+  // An OAuth provider hosted by ngrok, or "oidc" for your own identity provider
+  provider: NgrokOAuthProvider | 'oidc';
+  // Without allowlists any account that signs in gets through
+  allowEmails?: string[];
+  allowDomains?: string[];
+  // "oidc" only
+  issuerUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+export interface NgrokWebhookVerification {
+  provider: NgrokWebhookProvider;
+  // Signing secret shared with the sender, such as a GitHub webhook secret or Twilio auth token
+  secret: string;
+}
+
+export interface NgrokHeaderRules {
+  // Header name to value, replacing any value the header already has
+  add?: Record<string, string>;
+  remove?: string[];
+}
+
+// https://ngrok.com/docs/traffic-policy/ — on_http_* phases need an HTTP tunnel
+export type NgrokTrafficPolicy = Partial<Record<NgrokTrafficPolicyPhase, NgrokTrafficPolicyRule[]>>;
+
+export interface NgrokTrafficPolicyRule {
+  name?: string;
+  // CEL expressions that must all match for the actions to run
+  expressions?: string[];
+  actions: NgrokTrafficPolicyAction[];
+}
+
+export interface NgrokTrafficPolicyAction {
+  // Such as "deny", "rate-limit" or "add-headers"
+  type: string;
+  config?: Record<string, unknown>;
+}
+
+export interface NgrokIpRestriction {
+  allowCidrs: string[];
+  denyCidrs: string[];
+}
+
+export interface NgrokTunnelStatus extends TunnelStatus {
+  name: string;
+  state: NgrokTunnelState;
+  protocol: NgrokTunnelProtocol | null;
+  // Address traffic is forwarded to; port is null when it is a Unix socket
+  upstream: string | null;
+  // Successful automatic reconnects since the tunnel was started
+  reconnectCount: number;
+  lastError: string | null;
+  // Username required by basic auth, the password is never reported
+  basicAuthUsername: string | null;
+  // Sign-in required by the tunnel, without the OIDC client secret
+  identityPolicy: Omit<NgrokIdentityPolicy, 'clientSecret'> | null;
+  // Sender whose signatures are required, the secret is never reported
+  webhookVerification: NgrokWebhookProvider | null;
+  // null when every client address is let in
+  ipRestriction: NgrokIpRestriction | null;
+  // "sha256:<hex>" of the traffic policy in force, null without one
+  trafficPolicyDigest: string | null;
+  // null until the first health probe has run
+  healthy: boolean | null;
+  healthError: string | null;
+  lastCheckedAt: Date | null;
+  lastLatencyMs: number | null;
+  // Traffic counters from the ngrok inspector; null with the SDK backend or before the first read
+  metrics: NgrokTunnelMetrics | null;
+}
+
+// Rates are per second, averaged over the last 1, 5 and 15 minutes
+export interface NgrokTunnelMetrics {
+  connections: {
+    total: number;
+    open: number;
+    rate1m: number;
+    rate5m: number;
+    rate15m: number;
+  };
+  // HTTP tunnels only; response times in milliseconds
+  requests: {
+    total: number;
+    rate1m: number;
+    rate5m: number;
+    rate15m: number;
+    p50Ms: number;
+    p90Ms: number;
+  } | null;
+  updatedAt: Date;
+}
+
+export interface NgrokRequestFilter {
+  // Tunnel name or port; defaults to the "default" tunnel
+  tunnel?: string | number;
+  // Defaults to 20
+  limit?: number;
+  // Exact status code or a status class such as "5xx"
+  status?: number | '1xx' | '2xx' | '3xx' | '4xx' | '5xx';
+  // Matches requests whose path starts with this prefix
+  path?: string;
+}
+
+// A request captured by the ngrok inspector. Bodies are cut after 2048 characters.
+export interface NgrokCapturedRequest {
+  id: string;
+  method: string;
+  path: string;
+  // Path including the query string
+  uri: string;
+  // null while the upstream has not responded
+  status: number | null;
+  durationMs: number | null;
+  startedAt: Date;
+  remoteAddr: string | null;
+  requestHeaders: Record<string, string[]>;
+  responseHeaders: Record<string, string[]>;
+  requestBody: string;
+  requestBodyTruncated: boolean;
+  responseBody: string;
+  responseBodyTruncated: boolean;
+}
+
+export interface NgrokReplayOptions {
+  // Tunnel name or port the request was captured on; defaults to the "default" tunnel
+  tunnel?: string | number;
+  // Replaces the captured body; objects are sent as JSON
+  modifiedBody?: string | Record<string, unknown>;
+  // Added to or replacing the captured headers
+  modifiedHeaders?: Record<string, string>;
+}
+
+// The local service's response to a replayed request
+export interface NgrokReplayResult {
+  requestId: string;
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  responseHeaders: Record<string, string[]>;
+  responseBody: string;
+  responseBodyTruncated: boolean;
+  // Whether the body or headers differed from the captured request
+  modified: boolean;
+}
+
+// Runtime events emitted on tunnel state transitions
+export const NgrokEventType = {
+  TUNNEL_STARTING: 'TUNNEL_STARTING',
+  TUNNEL_STARTED: 'TUNNEL_STARTED',
+  TUNNEL_RECONNECTING: 'TUNNEL_RECONNECTING',
+  TUNNEL_URL_CHANGED: 'TUNNEL_URL_CHANGED',
+  TUNNEL_STOPPING: 'TUNNEL_STOPPING',
+  TUNNEL_STOPPED: 'TUNNEL_STOPPED',
+  TUNNEL_FAILED: 'TUNNEL_FAILED',
+} as const;
+
+export type NgrokEventType = (typeof NgrokEventType)[keyof typeof NgrokEventType];
+
+export interface NgrokTunnelEventPayload extends EventPayload {
+  tunnel: NgrokTunnelStatus;
+  previousState: NgrokTunnelState;
+  // TUNNEL_URL_CHANGED only
+  previousUrl?: string;
+  // TUNNEL_FAILED and TUNNEL_RECONNECTING only
+  error?: string;
+}